@@ -0,0 +1,98 @@
+package com.reactnativedroiddex
+
+import android.content.BroadcastReceiver
+import android.content.ComponentCallbacks2
+import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
+import android.content.res.Configuration
+import android.net.ConnectivityManager
+import android.net.Network
+import android.net.NetworkCapabilities
+import android.os.Build
+import android.os.PowerManager
+
+/**
+ * Calls onChange when the device state measured by one of the performance
+ * classes changes. CPU and STORAGE have no change callbacks, and neither do
+ * NETWORK before Android 7 or THERMAL before Android 10: monitors rely on
+ * their fallback polling for those.
+ */
+class DeviceChangeObserver(
+    private val context: Context,
+    private val classNames: Set<String>,
+    private val onChange: () -> Unit
+) {
+
+    private val receivers = mutableListOf<BroadcastReceiver>()
+    private var networkCallback: ConnectivityManager.NetworkCallback? = null
+    private var componentCallbacks: ComponentCallbacks2? = null
+    // Typed as Any so the class loads on API levels without thermal listeners
+    private var thermalListener: Any? = null
+
+    private val connectivityManager: ConnectivityManager
+        get() = context.getSystemService(Context.CONNECTIVITY_SERVICE) as ConnectivityManager
+
+    private val powerManager: PowerManager
+        get() = context.getSystemService(Context.POWER_SERVICE) as PowerManager
+
+    fun start() {
+        if ("BATTERY" in classNames) {
+            registerReceiver(IntentFilter(Intent.ACTION_BATTERY_CHANGED))
+        }
+        if ("POWER_SAVE" in classNames) {
+            registerReceiver(IntentFilter(PowerManager.ACTION_POWER_SAVE_MODE_CHANGED).apply {
+                if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.M) {
+                    addAction(PowerManager.ACTION_DEVICE_IDLE_MODE_CHANGED)
+                }
+            })
+        }
+        if ("NETWORK" in classNames && Build.VERSION.SDK_INT >= Build.VERSION_CODES.N) {
+            val callback = object : ConnectivityManager.NetworkCallback() {
+                override fun onAvailable(network: Network) = onChange()
+                override fun onLost(network: Network) = onChange()
+                override fun onCapabilitiesChanged(network: Network, capabilities: NetworkCapabilities) = onChange()
+            }
+            connectivityManager.registerDefaultNetworkCallback(callback)
+            networkCallback = callback
+        }
+        if ("MEMORY" in classNames) {
+            val callbacks = object : ComponentCallbacks2 {
+                override fun onTrimMemory(level: Int) = onChange()
+                override fun onLowMemory() = onChange()
+                override fun onConfigurationChanged(newConfig: Configuration) {}
+            }
+            context.registerComponentCallbacks(callbacks)
+            componentCallbacks = callbacks
+        }
+        if ("THERMAL" in classNames && Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+            val listener = PowerManager.OnThermalStatusChangedListener { onChange() }
+            powerManager.addThermalStatusListener(listener)
+            thermalListener = listener
+        }
+    }
+
+    fun stop() {
+        receivers.forEach { context.unregisterReceiver(it) }
+        receivers.clear()
+        networkCallback?.let { connectivityManager.unregisterNetworkCallback(it) }
+        networkCallback = null
+        componentCallbacks?.let { context.unregisterComponentCallbacks(it) }
+        componentCallbacks = null
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+            (thermalListener as? PowerManager.OnThermalStatusChangedListener)?.let {
+                powerManager.removeThermalStatusListener(it)
+            }
+        }
+        thermalListener = null
+    }
+
+    private fun registerReceiver(filter: IntentFilter) {
+        // System broadcasts, which don't need the exported flag of Android 14
+        val receiver = object : BroadcastReceiver() {
+            override fun onReceive(context: Context, intent: Intent) = onChange()
+        }
+        context.registerReceiver(receiver, filter)
+        receivers.add(receiver)
+    }
+}
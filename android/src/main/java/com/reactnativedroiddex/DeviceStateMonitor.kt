@@ -0,0 +1,98 @@
+package com.reactnativedroiddex
+
+import android.content.Context
+import android.os.Build
+import android.os.PowerManager
+import com.blinkit.droiddex.PerformanceLevel
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.bridge.WritableNativeMap
+
+/**
+ * Performance classes assessed from the device state by this module, on top of
+ * the classes measured by droid-dex
+ */
+enum class DeviceStateClass(val minApiLevel: Int) {
+    THERMAL(Build.VERSION_CODES.Q),
+    POWER_SAVE(Build.VERSION_CODES.LOLLIPOP)
+}
+
+class DeviceStateMonitor(private val context: Context) {
+
+    companion object {
+        // Forecast window of the thermal headroom
+        const val THERMAL_HEADROOM_FORECAST_SECONDS = 10
+    }
+
+    private val powerManager: PowerManager
+        get() = context.getSystemService(Context.POWER_SERVICE) as PowerManager
+
+    fun isSupported(deviceStateClass: DeviceStateClass): Boolean {
+        return Build.VERSION.SDK_INT >= deviceStateClass.minApiLevel
+    }
+
+    fun getPerformanceLevel(deviceStateClass: DeviceStateClass): PerformanceLevel {
+        return when (deviceStateClass) {
+            DeviceStateClass.THERMAL -> when (getThermalStatus()) {
+                null, PowerManager.THERMAL_STATUS_NONE -> PerformanceLevel.EXCELLENT
+                PowerManager.THERMAL_STATUS_LIGHT -> PerformanceLevel.HIGH
+                PowerManager.THERMAL_STATUS_MODERATE -> PerformanceLevel.AVERAGE
+                else -> PerformanceLevel.LOW
+            }
+            DeviceStateClass.POWER_SAVE -> when {
+                isDeviceIdleMode() || powerManager.isPowerSaveMode -> PerformanceLevel.LOW
+                else -> PerformanceLevel.EXCELLENT
+            }
+        }
+    }
+
+    fun createMetrics(deviceStateClass: DeviceStateClass): WritableMap {
+        return when (deviceStateClass) {
+            DeviceStateClass.THERMAL -> WritableNativeMap().apply {
+                putString("thermalStatus", getThermalStatusName(getThermalStatus()))
+                val headroom = getThermalHeadroom()
+                if (headroom != null) {
+                    putDouble("thermalHeadroom", headroom)
+                } else {
+                    putNull("thermalHeadroom")
+                }
+            }
+            DeviceStateClass.POWER_SAVE -> WritableNativeMap().apply {
+                putBoolean("isPowerSaveMode", powerManager.isPowerSaveMode)
+                putBoolean("isDeviceIdleMode", isDeviceIdleMode())
+            }
+        }
+    }
+
+    private fun getThermalStatus(): Int? {
+        return if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+            powerManager.currentThermalStatus
+        } else {
+            null
+        }
+    }
+
+    private fun getThermalHeadroom(): Double? {
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.R) {
+            return null
+        }
+        // NaN when the device has no thermal HAL or is called too often
+        val headroom = powerManager.getThermalHeadroom(THERMAL_HEADROOM_FORECAST_SECONDS)
+        return if (headroom.isNaN()) null else headroom.toDouble()
+    }
+
+    private fun getThermalStatusName(status: Int?): String {
+        return when (status) {
+            PowerManager.THERMAL_STATUS_LIGHT -> "LIGHT"
+            PowerManager.THERMAL_STATUS_MODERATE -> "MODERATE"
+            PowerManager.THERMAL_STATUS_SEVERE -> "SEVERE"
+            PowerManager.THERMAL_STATUS_CRITICAL -> "CRITICAL"
+            PowerManager.THERMAL_STATUS_EMERGENCY -> "EMERGENCY"
+            PowerManager.THERMAL_STATUS_SHUTDOWN -> "SHUTDOWN"
+            else -> "NONE"
+        }
+    }
+
+    private fun isDeviceIdleMode(): Boolean {
+        return Build.VERSION.SDK_INT >= Build.VERSION_CODES.M && powerManager.isDeviceIdleMode
+    }
+}
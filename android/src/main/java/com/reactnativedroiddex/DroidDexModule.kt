@@ -1,11 +1,22 @@
 package com.reactnativedroiddex
 
 import android.Manifest
+import android.app.ActivityManager
+import android.content.ComponentCallbacks2
 import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
 import android.content.pm.PackageManager
+import android.content.res.Configuration
+import android.net.ConnectivityManager
+import android.net.NetworkCapabilities
+import android.net.wifi.WifiManager
+import android.os.BatteryManager
 import android.os.Build
+import android.os.Environment
 import android.os.Handler
 import android.os.Looper
+import android.os.StatFs
 import android.util.Log
 import androidx.core.content.ContextCompat
 import com.blinkit.droiddex.DroidDex
@@ -14,26 +25,59 @@ import com.blinkit.droiddex.PerformanceLevel
 import com.facebook.react.bridge.*
 import com.facebook.react.modules.core.DeviceEventManagerModule
 import com.google.gson.Gson
+import java.io.File
 import java.util.*
 import java.util.concurrent.ConcurrentHashMap
 
 class DroidDexModule(reactContext: ReactApplicationContext) :
-    ReactContextBaseJavaModule(reactContext), LifecycleEventListener {
+    DroidDexSpec(reactContext), LifecycleEventListener {
 
     private val monitoringHandlers = ConcurrentHashMap<String, Handler>()
     private val monitoringRunnables = ConcurrentHashMap<String, Runnable>()
+    private val monitoringObservers = ConcurrentHashMap<String, DeviceChangeObserver>()
+    private val monitoringIntervals = ConcurrentHashMap<String, Long>()
+    private val pausedMonitors: MutableSet<String> = Collections.newSetFromMap(ConcurrentHashMap<String, Boolean>())
+    private val deviceStateMonitor = DeviceStateMonitor(reactContext)
+    @Volatile private var levelConfig = LevelConfig.DEFAULT
     private val gson = Gson()
     
     companion object {
         const val NAME = "DroidDex"
         const val TAG = "DroidDexModule"
+        private const val STORAGE_NAME = "DroidDexStorage"
+        private const val NO_SUPPORTED_CLASSES_MESSAGE = "None of the requested performance classes are supported on this device"
         private var isInitialized = false
         
+        // Level order used to combine droid-dex and device state levels
+        private val LEVEL_ORDER = listOf(
+            PerformanceLevel.LOW,
+            PerformanceLevel.AVERAGE,
+            PerformanceLevel.HIGH,
+            PerformanceLevel.EXCELLENT
+        )
+        
         // Minimum Android API level requirements
         const val MIN_API_LEVEL = 21
         const val NETWORK_MONITORING_MIN_API = 23
         const val BATTERY_STATS_MIN_API = 21
         
+        // Downstream bandwidth thresholds of the reported bandwidth strength
+        const val EXCELLENT_BANDWIDTH_KBPS = 10_000
+        const val GOOD_BANDWIDTH_KBPS = 2_000
+        const val AVERAGE_BANDWIDTH_KBPS = 500
+        
+        // WifiInfo.getRssi() value when no RSSI is available
+        const val INVALID_RSSI = -127
+        
+        // Delay before sampling after a change callback, as changes come in bursts
+        const val CHANGE_DEBOUNCE_MS = 500L
+        
+        // Events shared by every monitoring session, routed in JS by monitoringId
+        const val PERFORMANCE_EVENT = "DroidDex_Performance"
+        const val ERROR_EVENT = "DroidDex_Error"
+        const val MEMORY_PRESSURE_EVENT = "DroidDex_MemoryPressure"
+        const val LIFECYCLE_EVENT = "DroidDex_Lifecycle"
+        
         // Required permissions
         private val REQUIRED_PERMISSIONS = arrayOf(
             Manifest.permission.ACCESS_NETWORK_STATE,
@@ -45,15 +89,29 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
         )
     }
 
+    // Forwards onTrimMemory and onLowMemory to JS with a fresh memory snapshot
+    private val memoryCallbacks = object : ComponentCallbacks2 {
+        override fun onTrimMemory(level: Int) {
+            sendMemoryPressureEvent(getTrimLevelName(level))
+        }
+
+        override fun onLowMemory() {
+            sendMemoryPressureEvent("LOW_MEMORY")
+        }
+
+        override fun onConfigurationChanged(newConfig: Configuration) {}
+    }
+
     init {
         reactContext.addLifecycleEventListener(this)
+        reactContext.applicationContext.registerComponentCallbacks(memoryCallbacks)
     }
 
     override fun getName(): String {
         return NAME
     }
 
-    override fun getConstants(): MutableMap<String, Any> {
+    override fun getTypedExportedConstants(): Map<String, Any> {
         return hashMapOf(
             "PERFORMANCE_LEVELS" to hashMapOf(
                 "EXCELLENT" to PerformanceLevel.EXCELLENT.name,
@@ -66,13 +124,21 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
                 "MEMORY" to PerformanceClass.MEMORY.name,
                 "NETWORK" to PerformanceClass.NETWORK.name,
                 "STORAGE" to PerformanceClass.STORAGE.name,
-                "BATTERY" to PerformanceClass.BATTERY.name
+                "BATTERY" to PerformanceClass.BATTERY.name,
+                "THERMAL" to DeviceStateClass.THERMAL.name,
+                "POWER_SAVE" to DeviceStateClass.POWER_SAVE.name
+            ),
+            "EVENTS" to hashMapOf(
+                "PERFORMANCE" to PERFORMANCE_EVENT,
+                "ERROR" to ERROR_EVENT,
+                "MEMORY_PRESSURE" to MEMORY_PRESSURE_EVENT,
+                "LIFECYCLE" to LIFECYCLE_EVENT
             )
         )
     }
 
     @ReactMethod
-    fun initialize(config: ReadableMap, promise: Promise) {
+    override fun initialize(config: ReadableMap, promise: Promise) {
         try {
             // Check Android version compatibility
             if (Build.VERSION.SDK_INT < MIN_API_LEVEL) {
@@ -95,6 +161,8 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
                 Log.i(TAG, "Missing optional permissions: ${missingOptionalPermissions.joinToString(", ")}")
             }
             
+            levelConfig = LevelConfig.parse(config)
+            
             if (!isInitialized) {
                 try {
                     DroidDex.init(reactApplicationContext)
@@ -130,7 +198,7 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun getPerformanceLevel(performanceClasses: ReadableArray, promise: Promise) {
+    override fun getPerformanceLevel(performanceClasses: ReadableArray, promise: Promise) {
         try {
             ensureInitialized()
             
@@ -138,18 +206,12 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
             val supportedClasses = filterSupportedPerformanceClasses(classes)
             
             if (supportedClasses.isEmpty()) {
-                promise.reject("NO_SUPPORTED_CLASSES", "None of the requested performance classes are supported on this device")
+                promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
                 return
             }
             
-            val level = try {
-                DroidDex.getPerformanceLevel(*supportedClasses.toTypedArray())
-            } catch (e: Exception) {
-                Log.w(TAG, "DroidDex failed, using fallback performance assessment", e)
-                getFallbackPerformanceLevel(supportedClasses)
-            }
-            
-            val result = createPerformanceResult(level, supportedClasses, classes)
+            val assessment = assessPerformanceLevel(supportedClasses, weighted = false)
+            val result = createPerformanceResult(assessment, supportedClasses, classes)
             promise.resolve(result)
         } catch (e: Exception) {
             Log.e(TAG, "Failed to get performance level", e)
@@ -158,28 +220,20 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun getWeightedPerformanceLevel(weightedParams: ReadableArray, promise: Promise) {
+    override fun getWeightedPerformanceLevel(weightedParams: ReadableArray, promise: Promise) {
         try {
             ensureInitialized()
             
             val weightedClasses = parseWeightedPerformanceClasses(weightedParams)
-            val supportedWeightedClasses = filterSupportedWeightedPerformanceClasses(weightedClasses)
+            val supportedWeightedClasses = filterSupportedPerformanceClasses(weightedClasses)
             
             if (supportedWeightedClasses.isEmpty()) {
-                promise.reject("NO_SUPPORTED_CLASSES", "None of the requested performance classes are supported on this device")
+                promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
                 return
             }
             
-            val level = try {
-                DroidDex.getWeightedPerformanceLevel(*supportedWeightedClasses.toTypedArray())
-            } catch (e: Exception) {
-                Log.w(TAG, "DroidDex failed, using fallback weighted performance assessment", e)
-                getFallbackWeightedPerformanceLevel(supportedWeightedClasses)
-            }
-            
-            val performanceClasses = supportedWeightedClasses.map { it.first }
-            val originalClasses = weightedClasses.map { it.first }
-            val result = createPerformanceResult(level, performanceClasses, originalClasses)
+            val assessment = assessPerformanceLevel(supportedWeightedClasses, weighted = true)
+            val result = createPerformanceResult(assessment, supportedWeightedClasses, weightedClasses)
             
             promise.resolve(result)
         } catch (e: Exception) {
@@ -189,14 +243,18 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun startMonitoring(performanceClasses: ReadableArray, intervalMs: Int, promise: Promise) {
+    override fun startMonitoring(performanceClasses: ReadableArray, intervalMs: Double, promise: Promise) {
         try {
             ensureInitialized()
             
             val classes = parsePerformanceClasses(performanceClasses)
+            if (filterSupportedPerformanceClasses(classes).isEmpty()) {
+                promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
+                return
+            }
             val monitoringId = UUID.randomUUID().toString()
             
-            startPerformanceMonitoring(monitoringId, classes, null, intervalMs)
+            startPerformanceMonitoring(monitoringId, classes, false, intervalMs.toInt())
             
             promise.resolve(monitoringId)
         } catch (e: Exception) {
@@ -206,14 +264,18 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun startWeightedMonitoring(weightedParams: ReadableArray, intervalMs: Int, promise: Promise) {
+    override fun startWeightedMonitoring(weightedParams: ReadableArray, intervalMs: Double, promise: Promise) {
         try {
             ensureInitialized()
             
             val weightedClasses = parseWeightedPerformanceClasses(weightedParams)
+            if (filterSupportedPerformanceClasses(weightedClasses).isEmpty()) {
+                promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
+                return
+            }
             val monitoringId = UUID.randomUUID().toString()
             
-            startPerformanceMonitoring(monitoringId, null, weightedClasses, intervalMs)
+            startPerformanceMonitoring(monitoringId, weightedClasses, true, intervalMs.toInt())
             
             promise.resolve(monitoringId)
         } catch (e: Exception) {
@@ -223,8 +285,118 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun stopMonitoring(monitoringId: String, promise: Promise) {
+    override fun startEventMonitoring(performanceClasses: ReadableArray, fallbackIntervalMs: Double, promise: Promise) {
         try {
+            ensureInitialized()
+            
+            val classes = parsePerformanceClasses(performanceClasses)
+            if (filterSupportedPerformanceClasses(classes).isEmpty()) {
+                promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
+                return
+            }
+            val monitoringId = UUID.randomUUID().toString()
+            
+            startPerformanceMonitoring(monitoringId, classes, false, fallbackIntervalMs.toInt())
+            
+            // Sample soon after each change, which also restarts the fallback interval
+            val observer = DeviceChangeObserver(reactApplicationContext.applicationContext, classes.map { it.name }.toSet()) {
+                val handler = monitoringHandlers[monitoringId]
+                val runnable = monitoringRunnables[monitoringId]
+                if (handler != null && runnable != null && monitoringId !in pausedMonitors) {
+                    handler.removeCallbacks(runnable)
+                    handler.postDelayed(runnable, CHANGE_DEBOUNCE_MS)
+                }
+            }
+            observer.start()
+            monitoringObservers[monitoringId] = observer
+            
+            promise.resolve(monitoringId)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to start event monitoring", e)
+            promise.reject("MONITORING_ERROR", "Failed to start event monitoring: ${e.message}", e)
+        }
+    }
+
+    @ReactMethod
+    override fun pauseMonitoring(monitoringId: String, promise: Promise) {
+        try {
+            val handler = monitoringHandlers[monitoringId]
+            val runnable = monitoringRunnables[monitoringId]
+            
+            if (handler != null && runnable != null && pausedMonitors.add(monitoringId)) {
+                handler.removeCallbacks(runnable)
+                Log.d(TAG, "Paused monitoring: $monitoringId")
+                promise.resolve(true)
+            } else {
+                promise.resolve(false)
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to pause monitoring", e)
+            promise.reject("MONITORING_ERROR", "Failed to pause monitoring: ${e.message}", e)
+        }
+    }
+
+    @ReactMethod
+    override fun resumeMonitoring(monitoringId: String, intervalMs: Double, promise: Promise) {
+        try {
+            val handler = monitoringHandlers[monitoringId]
+            val runnable = monitoringRunnables[monitoringId]
+            
+            if (handler != null && runnable != null) {
+                // Also used to change the interval of a running monitor, which
+                // samples right away and then at the new interval
+                monitoringIntervals[monitoringId] = intervalMs.toLong()
+                pausedMonitors.remove(monitoringId)
+                handler.removeCallbacks(runnable)
+                handler.post(runnable)
+                Log.d(TAG, "Resumed monitoring: $monitoringId")
+                promise.resolve(true)
+            } else {
+                promise.resolve(false)
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to resume monitoring", e)
+            promise.reject("MONITORING_ERROR", "Failed to resume monitoring: ${e.message}", e)
+        }
+    }
+
+    @ReactMethod
+    override fun updateMonitoring(monitoringId: String, weightedParams: ReadableArray, weighted: Boolean, intervalMs: Double, promise: Promise) {
+        try {
+            val handler = monitoringHandlers[monitoringId]
+            val previousRunnable = monitoringRunnables[monitoringId]
+            
+            if (handler != null && previousRunnable != null) {
+                val classes = parseWeightedPerformanceClasses(weightedParams)
+                if (filterSupportedPerformanceClasses(classes).isEmpty()) {
+                    promise.reject("NO_SUPPORTED_CLASSES", NO_SUPPORTED_CLASSES_MESSAGE)
+                    return
+                }
+                val runnable = createMonitoringRunnable(monitoringId, handler, classes, weighted)
+                
+                handler.removeCallbacks(previousRunnable)
+                monitoringRunnables[monitoringId] = runnable
+                monitoringIntervals[monitoringId] = intervalMs.toLong()
+                if (monitoringId !in pausedMonitors) {
+                    handler.post(runnable)
+                }
+                Log.d(TAG, "Updated monitoring: $monitoringId")
+                promise.resolve(true)
+            } else {
+                promise.resolve(false)
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to update monitoring", e)
+            promise.reject("MONITORING_ERROR", "Failed to update monitoring: ${e.message}", e)
+        }
+    }
+
+    @ReactMethod
+    override fun stopMonitoring(monitoringId: String, promise: Promise) {
+        try {
+            monitoringObservers.remove(monitoringId)?.stop()
+            monitoringIntervals.remove(monitoringId)
+            pausedMonitors.remove(monitoringId)
             val handler = monitoringHandlers.remove(monitoringId)
             val runnable = monitoringRunnables.remove(monitoringId)
             
@@ -242,8 +414,11 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun stopAllMonitoring(promise: Promise) {
+    override fun stopAllMonitoring(promise: Promise) {
         try {
+            monitoringObservers.forEach { (_, observer) -> observer.stop() }
+            monitoringObservers.clear()
+            
             monitoringHandlers.forEach { (_, handler) ->
                 monitoringRunnables.forEach { (_, runnable) ->
                     handler.removeCallbacks(runnable)
@@ -252,6 +427,8 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
             
             monitoringHandlers.clear()
             monitoringRunnables.clear()
+            monitoringIntervals.clear()
+            pausedMonitors.clear()
             
             Log.d(TAG, "Stopped all monitoring")
             promise.resolve(true)
@@ -262,7 +439,7 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun getPlatformInfo(promise: Promise) {
+    override fun getPlatformInfo(promise: Promise) {
         try {
             val info = WritableNativeMap().apply {
                 putString("platform", "android")
@@ -281,87 +458,200 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    @ReactMethod
+    override fun getStoredValue(key: String, promise: Promise) {
+        try {
+            promise.resolve(getStorage().getString(key, null))
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to read stored value", e)
+            promise.reject("PLATFORM_ERROR", "Failed to read stored value: ${e.message}", e)
+        }
+    }
+
+    @ReactMethod
+    override fun setStoredValue(key: String, value: String?, promise: Promise) {
+        try {
+            val editor = getStorage().edit()
+            if (value == null) {
+                editor.remove(key)
+            } else {
+                editor.putString(key, value)
+            }
+            editor.apply()
+            promise.resolve(true)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to store value", e)
+            promise.reject("PLATFORM_ERROR", "Failed to store value: ${e.message}", e)
+        }
+    }
+
+    /**
+     * Values persisted for the JS side across app launches
+     */
+    private fun getStorage() = reactApplicationContext.getSharedPreferences(STORAGE_NAME, Context.MODE_PRIVATE)
+
     private fun ensureInitialized() {
         if (!isInitialized) {
             throw IllegalStateException("DroidDex not initialized. Call initialize() first.")
         }
     }
 
-    private fun parsePerformanceClasses(performanceClasses: ReadableArray): List<PerformanceClass> {
-        val classes = mutableListOf<PerformanceClass>()
+    private fun parsePerformanceClasses(performanceClasses: ReadableArray): List<RequestedClass> {
+        val classes = mutableListOf<RequestedClass>()
         
         for (i in 0 until performanceClasses.size()) {
             val className = performanceClasses.getString(i)
-            val performanceClass = PerformanceClass.valueOf(className)
-            classes.add(performanceClass)
+            classes.add(RequestedClass.parse(className, 1f))
         }
         
         return classes
     }
 
-    private fun parseWeightedPerformanceClasses(weightedParams: ReadableArray): List<Pair<PerformanceClass, Float>> {
-        val weightedClasses = mutableListOf<Pair<PerformanceClass, Float>>()
+    private fun parseWeightedPerformanceClasses(weightedParams: ReadableArray): List<RequestedClass> {
+        val weightedClasses = mutableListOf<RequestedClass>()
         
         for (i in 0 until weightedParams.size()) {
             val param = weightedParams.getMap(i)
             val className = param.getString("performanceClass")
             val weight = param.getDouble("weight").toFloat()
             
-            val performanceClass = PerformanceClass.valueOf(className)
-            weightedClasses.add(performanceClass to weight)
+            weightedClasses.add(RequestedClass.parse(className, weight))
         }
         
         return weightedClasses
     }
 
+    /**
+     * Rate each class with its configured thresholds when its metric is
+     * available, otherwise device state classes with the DeviceStateMonitor and
+     * the others with droid-dex, and combine the levels with the configured
+     * scoring strategy. With the default weighted mean, droid-dex classes are
+     * rated together by droid-dex, and on their own for the breakdown.
+     */
+    private fun assessPerformanceLevel(classes: List<RequestedClass>, weighted: Boolean): Assessment {
+        val config = levelConfig
+        val classLevels = linkedMapOf<String, PerformanceLevel>()
+        val weightedLevels = mutableListOf<Pair<PerformanceLevel, Float>>()
+        val droidDexClasses = mutableListOf<RequestedClass>()
+        
+        classes.forEach { requestedClass ->
+            val deviceStateClass = requestedClass.deviceStateClass
+            val level = rateWithThresholds(requestedClass, config)
+                ?: deviceStateClass?.let { deviceStateMonitor.getPerformanceLevel(it) }
+            if (level != null) {
+                classLevels[requestedClass.name] = level
+                weightedLevels.add(level to requestedClass.weight)
+            } else {
+                droidDexClasses.add(requestedClass)
+            }
+        }
+        
+        droidDexClasses.forEach { classLevels[it.name] = assessDroidDexLevel(listOf(it), weighted) }
+        if (config.ratesClassesIndividually || droidDexClasses.size == 1) {
+            droidDexClasses.forEach { weightedLevels.add(classLevels.getValue(it.name) to it.weight) }
+        } else if (droidDexClasses.isNotEmpty()) {
+            weightedLevels.add(assessDroidDexLevel(droidDexClasses, weighted) to droidDexClasses.map { it.weight }.sum())
+        }
+        
+        return Assessment(config.combine(weightedLevels, LEVEL_ORDER), classLevels)
+    }
+
+    private fun assessDroidDexLevel(classes: List<RequestedClass>, weighted: Boolean): PerformanceLevel {
+        return try {
+            if (weighted) {
+                DroidDex.getWeightedPerformanceLevel(
+                    *classes.map { it.droidDexClass!! to it.weight }.toTypedArray()
+                )
+            } else {
+                DroidDex.getPerformanceLevel(*classes.map { it.droidDexClass!! }.toTypedArray())
+            }
+        } catch (e: Exception) {
+            Log.w(TAG, "DroidDex failed, using fallback performance assessment", e)
+            getFallbackPerformanceLevel(classes.map { it.droidDexClass!! })
+        }
+    }
+
+    /**
+     * Level of a class from its configured thresholds, or null when it has none
+     * or its metric is unavailable
+     */
+    private fun rateWithThresholds(requestedClass: RequestedClass, config: LevelConfig): PerformanceLevel? {
+        val thresholds = config.thresholds[requestedClass.name] ?: return null
+        val (_, metrics) = createClassMetrics(requestedClass) ?: return null
+        if (!metrics.hasKey(thresholds.metric) || metrics.getType(thresholds.metric) != ReadableType.Number) {
+            return null
+        }
+        return thresholds.classify(metrics.getDouble(thresholds.metric))
+    }
+
     private fun startPerformanceMonitoring(
         monitoringId: String,
-        classes: List<PerformanceClass>?,
-        weightedClasses: List<Pair<PerformanceClass, Float>>?,
+        classes: List<RequestedClass>,
+        weighted: Boolean,
         intervalMs: Int
     ) {
         val handler = Handler(Looper.getMainLooper())
+        val runnable = createMonitoringRunnable(monitoringId, handler, classes, weighted)
         
-        val runnable = object : Runnable {
+        monitoringHandlers[monitoringId] = handler
+        monitoringRunnables[monitoringId] = runnable
+        monitoringIntervals[monitoringId] = intervalMs.toLong()
+        handler.post(runnable)
+    }
+
+    private fun createMonitoringRunnable(
+        monitoringId: String,
+        handler: Handler,
+        classes: List<RequestedClass>,
+        weighted: Boolean
+    ): Runnable {
+        return object : Runnable {
             override fun run() {
+                // Replaced by updateMonitoring or stopped while already posted
+                if (monitoringId in pausedMonitors || monitoringRunnables[monitoringId] !== this) {
+                    return
+                }
                 try {
-                    val level = if (classes != null) {
-                        DroidDex.getPerformanceLevel(*classes.toTypedArray())
-                    } else {
-                        val weightedArray = weightedClasses!!.map { it.first to it.second }.toTypedArray()
-                        DroidDex.getWeightedPerformanceLevel(*weightedArray)
-                    }
-                    
-                    val performanceClasses = classes ?: weightedClasses!!.map { it.first }
-                    val result = createPerformanceResult(level, performanceClasses, performanceClasses)
-                    
-                    sendEvent("DroidDex_Performance_$monitoringId", result)
+                    val supportedClasses = filterSupportedPerformanceClasses(classes)
+                    val assessment = assessPerformanceLevel(supportedClasses, weighted)
+                    val result = createPerformanceResult(assessment, supportedClasses, classes)
+                    result.putString("monitoringId", monitoringId)
                     
-                    handler.postDelayed(this, intervalMs.toLong())
+                    sendEvent(PERFORMANCE_EVENT, result)
                 } catch (e: Exception) {
                     Log.e(TAG, "Error in performance monitoring", e)
-                    sendEvent("DroidDex_Error_$monitoringId", WritableNativeMap().apply {
+                    sendEvent(ERROR_EVENT, WritableNativeMap().apply {
+                        putString("monitoringId", monitoringId)
+                        putString("code", "MONITORING_ERROR")
                         putString("message", e.message ?: "Unknown error")
+                        putArray("performanceClasses", WritableNativeArray().apply {
+                            classes.forEach { pushString(it.name) }
+                        })
                     })
                 }
+                // Keep sampling after a failure, the next sample may succeed
+                monitoringIntervals[monitoringId]?.let { handler.postDelayed(this, it) }
             }
         }
-        
-        monitoringHandlers[monitoringId] = handler
-        monitoringRunnables[monitoringId] = runnable
-        handler.post(runnable)
     }
 
-    private fun createPerformanceResult(level: PerformanceLevel, supportedClasses: List<PerformanceClass>, originalClasses: List<PerformanceClass>? = null): WritableMap {
+    private fun createPerformanceResult(assessment: Assessment, supportedClasses: List<RequestedClass>, originalClasses: List<RequestedClass>? = null): WritableMap {
         return WritableNativeMap().apply {
-            putString("level", level.name)
+            putString("level", assessment.level.name)
+            // Metrics of each class are added from the metrics sections in JS
+            putMap("breakdown", WritableNativeMap().apply {
+                assessment.classLevels.forEach { (name, level) ->
+                    putMap(name, WritableNativeMap().apply { putString("level", level.name) })
+                }
+            })
             putMap("metrics", createMetrics(supportedClasses))
             putDouble("timestamp", System.currentTimeMillis().toDouble())
             putArray("supportedClasses", WritableNativeArray().apply {
                 supportedClasses.forEach { pushString(it.name) }
             })
             originalClasses?.let { original ->
-                val unsupported = original - supportedClasses.toSet()
+                val supportedNames = supportedClasses.map { it.name }.toSet()
+                val unsupported = original.filter { it.name !in supportedNames }
                 if (unsupported.isNotEmpty()) {
                     putArray("unsupportedClasses", WritableNativeArray().apply {
                         unsupported.forEach { pushString(it.name) }
@@ -371,69 +661,232 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
         }
     }
 
-    private fun createMetrics(classes: List<PerformanceClass>): WritableMap {
+    private fun createMetrics(classes: List<RequestedClass>): WritableMap {
         val metrics = WritableNativeMap()
         
-        classes.forEach { performanceClass ->
-            when (performanceClass) {
-                PerformanceClass.CPU -> {
-                    metrics.putMap("cpu", WritableNativeMap().apply {
-                        putDouble("totalRam", Runtime.getRuntime().totalMemory().toDouble())
-                        putInt("coreCount", Runtime.getRuntime().availableProcessors())
-                        putDouble("cpuFrequency", 0.0) // This would need system-level access
-                    })
-                }
-                PerformanceClass.MEMORY -> {
-                    val runtime = Runtime.getRuntime()
-                    metrics.putMap("memory", WritableNativeMap().apply {
-                        putDouble("heapLimit", runtime.maxMemory().toDouble())
-                        putDouble("heapRemaining", (runtime.maxMemory() - runtime.totalMemory() + runtime.freeMemory()).toDouble())
-                        putDouble("availableRam", runtime.freeMemory().toDouble())
-                    })
-                }
-                PerformanceClass.BATTERY -> {
-                    // Battery metrics would be populated by droid-dex internally
-                    metrics.putMap("battery", WritableNativeMap().apply {
-                        putDouble("percentageRemaining", 0.0)
-                        putBoolean("isCharging", false)
-                    })
-                }
-                PerformanceClass.NETWORK -> {
-                    // Network metrics would be populated by droid-dex internally
-                    metrics.putMap("network", WritableNativeMap().apply {
-                        putString("bandwidthStrength", "UNKNOWN")
-                        putDouble("downloadSpeed", 0.0)
-                        putDouble("signalStrength", 0.0)
-                    })
-                }
-                PerformanceClass.STORAGE -> {
-                    // Storage metrics would be populated by droid-dex internally
-                    metrics.putMap("storage", WritableNativeMap().apply {
-                        putDouble("availableStorage", 0.0)
-                    })
-                }
+        classes.forEach { requestedClass ->
+            createClassMetrics(requestedClass)?.let { (section, classMetrics) ->
+                metrics.putMap(section, classMetrics)
             }
         }
         
         return metrics
     }
 
+    /**
+     * Metrics section of a class and its metrics
+     */
+    private fun createClassMetrics(requestedClass: RequestedClass): Pair<String, WritableMap>? {
+        when (requestedClass.droidDexClass) {
+            PerformanceClass.CPU -> return "cpu" to createCpuMetrics()
+            PerformanceClass.MEMORY -> return "memory" to createMemoryMetrics()
+            PerformanceClass.BATTERY -> return "battery" to createBatteryMetrics()
+            PerformanceClass.NETWORK -> return "network" to createNetworkMetrics()
+            PerformanceClass.STORAGE -> return "storage" to createStorageMetrics()
+            else -> {}
+        }
+        return when (requestedClass.deviceStateClass) {
+            DeviceStateClass.THERMAL -> "thermal" to deviceStateMonitor.createMetrics(DeviceStateClass.THERMAL)
+            DeviceStateClass.POWER_SAVE -> "power" to deviceStateMonitor.createMetrics(DeviceStateClass.POWER_SAVE)
+            null -> null
+        }
+    }
+
+    /**
+     * Put a measured value, or null when the device does not expose it
+     */
+    private fun WritableMap.putMeasuredDouble(key: String, value: Double?) {
+        if (value != null) {
+            putDouble(key, value)
+        } else {
+            putNull(key)
+        }
+    }
+
+    private fun getMemoryInfo(): ActivityManager.MemoryInfo {
+        val activityManager = reactApplicationContext.getSystemService(Context.ACTIVITY_SERVICE) as ActivityManager
+        return ActivityManager.MemoryInfo().also { activityManager.getMemoryInfo(it) }
+    }
+
+    private fun createCpuMetrics(): WritableMap {
+        return WritableNativeMap().apply {
+            putDouble("totalRam", getMemoryInfo().totalMem.toDouble())
+            putInt("coreCount", Runtime.getRuntime().availableProcessors())
+            putMeasuredDouble("cpuFrequency", readCpuFrequencyMhz())
+        }
+    }
+
+    /**
+     * Current frequency of the fastest online core, read from cpufreq (in kHz)
+     */
+    private fun readCpuFrequencyMhz(): Double? {
+        val frequencies = (0 until Runtime.getRuntime().availableProcessors()).mapNotNull { core ->
+            try {
+                File("/sys/devices/system/cpu/cpu$core/cpufreq/scaling_cur_freq").readText().trim().toLongOrNull()
+            } catch (e: Exception) {
+                null
+            }
+        }
+        return frequencies.maxOrNull()?.let { it / 1000.0 }
+    }
+
+    private fun createMemoryMetrics(): WritableMap {
+        val runtime = Runtime.getRuntime()
+        return WritableNativeMap().apply {
+            putDouble("heapLimit", runtime.maxMemory().toDouble())
+            putDouble("heapRemaining", (runtime.maxMemory() - runtime.totalMemory() + runtime.freeMemory()).toDouble())
+            putDouble("availableRam", getMemoryInfo().availMem.toDouble())
+        }
+    }
+
+    private fun createBatteryMetrics(): WritableMap {
+        // Sticky broadcast, no receiver is actually registered
+        val batteryStatus = reactApplicationContext.registerReceiver(null, IntentFilter(Intent.ACTION_BATTERY_CHANGED))
+        val level = batteryStatus?.getIntExtra(BatteryManager.EXTRA_LEVEL, -1) ?: -1
+        val scale = batteryStatus?.getIntExtra(BatteryManager.EXTRA_SCALE, -1) ?: -1
+        val status = batteryStatus?.getIntExtra(BatteryManager.EXTRA_STATUS, -1) ?: -1
+        
+        return WritableNativeMap().apply {
+            putMeasuredDouble("percentageRemaining", if (level >= 0 && scale > 0) level * 100.0 / scale else null)
+            putBoolean(
+                "isCharging",
+                status == BatteryManager.BATTERY_STATUS_CHARGING || status == BatteryManager.BATTERY_STATUS_FULL
+            )
+        }
+    }
+
+    private fun createNetworkMetrics(): WritableMap {
+        val capabilities = getActiveNetworkCapabilities()
+        val downloadSpeed = capabilities?.linkDownstreamBandwidthKbps?.takeIf { it > 0 }?.toDouble()
+        
+        return WritableNativeMap().apply {
+            putString("bandwidthStrength", getBandwidthStrength(downloadSpeed))
+            putMeasuredDouble("downloadSpeed", downloadSpeed)
+            putMeasuredDouble("signalStrength", getSignalStrength(capabilities))
+        }
+    }
+
+    private fun getActiveNetworkCapabilities(): NetworkCapabilities? {
+        if (Build.VERSION.SDK_INT < NETWORK_MONITORING_MIN_API) {
+            return null
+        }
+        val connectivityManager =
+            reactApplicationContext.getSystemService(Context.CONNECTIVITY_SERVICE) as? ConnectivityManager ?: return null
+        return try {
+            connectivityManager.getNetworkCapabilities(connectivityManager.activeNetwork)
+        } catch (e: SecurityException) {
+            // ACCESS_NETWORK_STATE not granted
+            null
+        }
+    }
+
+    private fun getBandwidthStrength(downloadSpeedKbps: Double?): String {
+        return when {
+            downloadSpeedKbps == null -> "UNKNOWN"
+            downloadSpeedKbps >= EXCELLENT_BANDWIDTH_KBPS -> "EXCELLENT"
+            downloadSpeedKbps >= GOOD_BANDWIDTH_KBPS -> "GOOD"
+            downloadSpeedKbps >= AVERAGE_BANDWIDTH_KBPS -> "AVERAGE"
+            else -> "POOR"
+        }
+    }
+
+    private fun getSignalStrength(capabilities: NetworkCapabilities?): Double? {
+        if (capabilities == null) {
+            return null
+        }
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q &&
+            capabilities.signalStrength != NetworkCapabilities.SIGNAL_STRENGTH_UNSPECIFIED) {
+            return capabilities.signalStrength.toDouble()
+        }
+        if (!capabilities.hasTransport(NetworkCapabilities.TRANSPORT_WIFI)) {
+            return null
+        }
+        return try {
+            val wifiManager = reactApplicationContext.applicationContext
+                .getSystemService(Context.WIFI_SERVICE) as? WifiManager
+            @Suppress("DEPRECATION")
+            wifiManager?.connectionInfo?.rssi?.takeIf { it != INVALID_RSSI }?.toDouble()
+        } catch (e: SecurityException) {
+            // ACCESS_WIFI_STATE not granted
+            null
+        }
+    }
+
+    private fun createStorageMetrics(): WritableMap {
+        val stat = StatFs(Environment.getDataDirectory().path)
+        return WritableNativeMap().apply {
+            putDouble("availableStorage", stat.availableBytes.toDouble())
+            putDouble("totalStorage", stat.totalBytes.toDouble())
+        }
+    }
+
+    @ReactMethod
+    override fun addListener(eventName: String) {
+        // Required by NativeEventEmitter, events are always emitted
+    }
+
+    @ReactMethod
+    override fun removeListeners(count: Double) {
+        // Required by NativeEventEmitter
+    }
+
     private fun sendEvent(eventName: String, params: WritableMap?) {
         reactApplicationContext
             .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
             .emit(eventName, params)
     }
 
+    private fun sendMemoryPressureEvent(level: String) {
+        try {
+            sendEvent(MEMORY_PRESSURE_EVENT, WritableNativeMap().apply {
+                putString("level", level)
+                putMap("metrics", createMemoryMetrics())
+                putDouble("timestamp", System.currentTimeMillis().toDouble())
+            })
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to send memory pressure event", e)
+        }
+    }
+
+    /**
+     * Name of a trim level, rounding unknown levels down to the closest known one
+     */
+    @Suppress("DEPRECATION")
+    private fun getTrimLevelName(level: Int): String {
+        return when {
+            level >= ComponentCallbacks2.TRIM_MEMORY_COMPLETE -> "COMPLETE"
+            level >= ComponentCallbacks2.TRIM_MEMORY_MODERATE -> "MODERATE"
+            level >= ComponentCallbacks2.TRIM_MEMORY_BACKGROUND -> "BACKGROUND"
+            level >= ComponentCallbacks2.TRIM_MEMORY_UI_HIDDEN -> "UI_HIDDEN"
+            level >= ComponentCallbacks2.TRIM_MEMORY_RUNNING_CRITICAL -> "RUNNING_CRITICAL"
+            level >= ComponentCallbacks2.TRIM_MEMORY_RUNNING_LOW -> "RUNNING_LOW"
+            else -> "RUNNING_MODERATE"
+        }
+    }
+
+    override fun invalidate() {
+        reactApplicationContext.applicationContext.unregisterComponentCallbacks(memoryCallbacks)
+        super.invalidate()
+    }
+
     override fun onHostResume() {
-        // Resume monitoring if needed
+        // Lifecycle policies are applied from JS with AppState, which calls
+        // pauseMonitoring and resumeMonitoring
     }
 
     override fun onHostPause() {
-        // Pause monitoring if needed
+        // See onHostResume
     }
 
     override fun onHostDestroy() {
-        // Clean up all monitoring
+        // Tell JS which monitors are stopped, then clean up all monitoring
+        monitoringHandlers.keys.forEach { monitoringId ->
+            sendEvent(LIFECYCLE_EVENT, WritableNativeMap().apply {
+                putString("monitoringId", monitoringId)
+                putString("state", "terminated")
+                putDouble("timestamp", System.currentTimeMillis().toDouble())
+            })
+        }
         stopAllMonitoring(object : Promise {
             override fun resolve(value: Any?) {}
             override fun reject(code: String?, message: String?) {}
@@ -474,25 +927,13 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
         return missingPermissions
     }
     
-    private fun filterSupportedPerformanceClasses(classes: List<PerformanceClass>): List<PerformanceClass> {
-        return classes.filter { performanceClass ->
-            when (performanceClass) {
-                PerformanceClass.NETWORK -> {
-                    Build.VERSION.SDK_INT >= NETWORK_MONITORING_MIN_API && 
-                    ContextCompat.checkSelfPermission(reactApplicationContext, Manifest.permission.ACCESS_NETWORK_STATE) == PackageManager.PERMISSION_GRANTED
-                }
-                PerformanceClass.BATTERY -> {
-                    Build.VERSION.SDK_INT >= BATTERY_STATS_MIN_API
-                }
-                PerformanceClass.CPU, PerformanceClass.MEMORY, PerformanceClass.STORAGE -> true
-                else -> true
+    private fun filterSupportedPerformanceClasses(classes: List<RequestedClass>): List<RequestedClass> {
+        return classes.filter { requestedClass ->
+            val deviceStateClass = requestedClass.deviceStateClass
+            if (deviceStateClass != null) {
+                return@filter deviceStateMonitor.isSupported(deviceStateClass)
             }
-        }
-    }
-    
-    private fun filterSupportedWeightedPerformanceClasses(weightedClasses: List<Pair<PerformanceClass, Float>>): List<Pair<PerformanceClass, Float>> {
-        return weightedClasses.filter { (performanceClass, _) ->
-            when (performanceClass) {
+            when (requestedClass.droidDexClass) {
                 PerformanceClass.NETWORK -> {
                     Build.VERSION.SDK_INT >= NETWORK_MONITORING_MIN_API && 
                     ContextCompat.checkSelfPermission(reactApplicationContext, Manifest.permission.ACCESS_NETWORK_STATE) == PackageManager.PERMISSION_GRANTED
@@ -547,10 +988,34 @@ class DroidDexModule(reactContext: ReactApplicationContext) :
             else -> PerformanceLevel.LOW
         }
     }
-    
-    private fun getFallbackWeightedPerformanceLevel(weightedClasses: List<Pair<PerformanceClass, Float>>): PerformanceLevel {
-        // For weighted fallback, use the same scoring but apply weights
-        val classes = weightedClasses.map { it.first }
-        return getFallbackPerformanceLevel(classes)
+
+    /**
+     * Performance class requested from JS, measured either by droid-dex or from
+     * the device state
+     */
+    private data class RequestedClass(
+        val name: String,
+        val weight: Float,
+        val droidDexClass: PerformanceClass?,
+        val deviceStateClass: DeviceStateClass?
+    ) {
+        companion object {
+            fun parse(name: String?, weight: Float): RequestedClass {
+                val droidDexClass = PerformanceClass.values().firstOrNull { it.name == name }
+                val deviceStateClass = DeviceStateClass.values().firstOrNull { it.name == name }
+                if (name == null || (droidDexClass == null && deviceStateClass == null)) {
+                    throw IllegalArgumentException("Unknown performance class: $name")
+                }
+                return RequestedClass(name, weight, droidDexClass, deviceStateClass)
+            }
+        }
     }
-}
\ No newline at end of file
+
+    /**
+     * Combined level of the requested classes, and the level of each of them
+     */
+    private data class Assessment(
+        val level: PerformanceLevel,
+        val classLevels: Map<String, PerformanceLevel>
+    )
+}
@@ -0,0 +1,106 @@
+package com.reactnativedroiddex
+
+import com.blinkit.droiddex.PerformanceLevel
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.ReadableType
+
+/**
+ * How the levels of several classes are combined, see ScoringStrategy in
+ * src/types.ts
+ */
+enum class ScoringStrategy(val configName: String) {
+    WEIGHTED_MEAN("weighted-mean"),
+    WORST("worst"),
+    BEST("best");
+
+    companion object {
+        fun parse(name: String?): ScoringStrategy {
+            return values().firstOrNull { it.configName == name } ?: WEIGHTED_MEAN
+        }
+    }
+}
+
+/**
+ * Level cutoffs of one class, derived from one of its numeric metrics
+ */
+data class LevelThresholds(
+    val metric: String,
+    val cutoffs: Map<PerformanceLevel, Double>,
+    val lowerIsBetter: Boolean
+) {
+    fun classify(value: Double): PerformanceLevel {
+        return RATED_LEVELS.firstOrNull { level ->
+            val cutoff = cutoffs[level] ?: return@firstOrNull false
+            if (lowerIsBetter) value <= cutoff else value >= cutoff
+        } ?: PerformanceLevel.LOW
+    }
+
+    companion object {
+        private val RATED_LEVELS = listOf(PerformanceLevel.EXCELLENT, PerformanceLevel.HIGH, PerformanceLevel.AVERAGE)
+
+        fun parse(table: ReadableMap): LevelThresholds? {
+            val metric = if (table.hasKey("metric")) table.getString("metric") else null
+            val levels = if (table.hasKey("levels")) table.getMap("levels") else null
+            if (metric == null || levels == null) {
+                return null
+            }
+            val cutoffs = RATED_LEVELS.filter { levels.hasKey(it.name) && levels.getType(it.name) == ReadableType.Number }
+                .associateWith { levels.getDouble(it.name) }
+            val lowerIsBetter = table.hasKey("lowerIsBetter") && table.getBoolean("lowerIsBetter")
+            return LevelThresholds(metric, cutoffs, lowerIsBetter)
+        }
+    }
+}
+
+/**
+ * Thresholds and scoring strategy passed to initialize
+ */
+class LevelConfig(
+    val thresholds: Map<String, LevelThresholds>,
+    val scoring: ScoringStrategy
+) {
+
+    /**
+     * Whether droid-dex classes must be rated one by one instead of together
+     * by droid-dex
+     */
+    val ratesClassesIndividually: Boolean
+        get() = scoring != ScoringStrategy.WEIGHTED_MEAN
+
+    fun combine(weightedLevels: List<Pair<PerformanceLevel, Float>>, levelOrder: List<PerformanceLevel>): PerformanceLevel {
+        // Same default as the JS side when no class could be rated
+        if (weightedLevels.isEmpty()) {
+            return PerformanceLevel.HIGH
+        }
+        if (weightedLevels.size == 1) {
+            return weightedLevels[0].first
+        }
+        val weighted = weightedLevels.filter { it.second > 0f }
+        if (weighted.isEmpty()) {
+            return weightedLevels.minByOrNull { levelOrder.indexOf(it.first) }!!.first
+        }
+        return when (scoring) {
+            ScoringStrategy.WORST -> weighted.minByOrNull { levelOrder.indexOf(it.first) }!!.first
+            ScoringStrategy.BEST -> weighted.maxByOrNull { levelOrder.indexOf(it.first) }!!.first
+            ScoringStrategy.WEIGHTED_MEAN -> {
+                val totalWeight = weighted.map { it.second }.sum()
+                val score = weighted.map { (level, weight) -> levelOrder.indexOf(level) * weight }.sum() / totalWeight
+                levelOrder[Math.round(score).coerceIn(0, levelOrder.size - 1)]
+            }
+        }
+    }
+
+    companion object {
+        val DEFAULT = LevelConfig(emptyMap(), ScoringStrategy.WEIGHTED_MEAN)
+
+        fun parse(config: ReadableMap): LevelConfig {
+            val thresholds = mutableMapOf<String, LevelThresholds>()
+            val tables = if (config.hasKey("thresholds")) config.getMap("thresholds") else null
+            tables?.toHashMap()?.keys?.forEach { className ->
+                tables.getMap(className)?.let { LevelThresholds.parse(it) }?.let { thresholds[className] = it }
+            }
+            val scoring = ScoringStrategy.parse(if (config.hasKey("scoring")) config.getString("scoring") else null)
+            return LevelConfig(thresholds, scoring)
+        }
+    }
+}
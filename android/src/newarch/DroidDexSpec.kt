@@ -0,0 +1,9 @@
+package com.reactnativedroiddex
+
+import com.facebook.react.bridge.ReactApplicationContext
+
+/**
+ * New Architecture base class, generated by codegen from src/NativeDroidDex.ts
+ */
+abstract class DroidDexSpec internal constructor(context: ReactApplicationContext) :
+    NativeDroidDexSpec(context)
@@ -0,0 +1,51 @@
+package com.reactnativedroiddex
+
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReadableArray
+import com.facebook.react.bridge.ReadableMap
+
+/**
+ * Legacy bridge base class mirroring the codegen spec of src/NativeDroidDex.ts
+ */
+abstract class DroidDexSpec internal constructor(context: ReactApplicationContext) :
+    ReactContextBaseJavaModule(context) {
+
+    // Codegen makes getConstants final and delegates to this method
+    protected abstract fun getTypedExportedConstants(): Map<String, Any>
+
+    override fun getConstants(): Map<String, Any> = getTypedExportedConstants()
+
+    abstract fun initialize(config: ReadableMap, promise: Promise)
+
+    abstract fun getPerformanceLevel(performanceClasses: ReadableArray, promise: Promise)
+
+    abstract fun getWeightedPerformanceLevel(weightedClasses: ReadableArray, promise: Promise)
+
+    abstract fun startMonitoring(performanceClasses: ReadableArray, intervalMs: Double, promise: Promise)
+
+    abstract fun startWeightedMonitoring(weightedClasses: ReadableArray, intervalMs: Double, promise: Promise)
+
+    abstract fun startEventMonitoring(performanceClasses: ReadableArray, fallbackIntervalMs: Double, promise: Promise)
+
+    abstract fun pauseMonitoring(monitoringId: String, promise: Promise)
+
+    abstract fun resumeMonitoring(monitoringId: String, intervalMs: Double, promise: Promise)
+
+    abstract fun updateMonitoring(monitoringId: String, weightedClasses: ReadableArray, weighted: Boolean, intervalMs: Double, promise: Promise)
+
+    abstract fun stopMonitoring(monitoringId: String, promise: Promise)
+
+    abstract fun stopAllMonitoring(promise: Promise)
+
+    abstract fun getPlatformInfo(promise: Promise)
+
+    abstract fun getStoredValue(key: String, promise: Promise)
+
+    abstract fun setStoredValue(key: String, value: String?, promise: Promise)
+
+    abstract fun addListener(eventName: String)
+
+    abstract fun removeListeners(count: Double)
+}
@@ -0,0 +1,21 @@
+/* eslint-env jest */
+/**
+ * Jest mock for react-native-droid-dex.
+ *
+ * Usage (e.g. in your jest setup file):
+ *
+ *   jest.mock('react-native-droid-dex', () =>
+ *     require('react-native-droid-dex/jest')
+ *   );
+ *
+ * The real JS API is used on top of a deterministic simulator backend, so
+ * monitoring events, listeners and hooks behave as on a device. Install a
+ * scripted simulator in a test with:
+ *
+ *   setBackend(createSimulatorBackend({ levels: ['HIGH', 'LOW'] }));
+ */
+const DroidDex = jest.requireActual('react-native-droid-dex');
+
+DroidDex.setBackend(DroidDex.createSimulatorBackend());
+
+module.exports = DroidDex;
@@ -0,0 +1,68 @@
+import type { TurboModule } from 'react-native';
+import { TurboModuleRegistry } from 'react-native';
+
+/**
+ * TurboModule spec of the DroidDex native module, used by codegen. Payloads
+ * are typed as plain objects here and validated at runtime by the JS layer.
+ */
+export interface Spec extends TurboModule {
+  getConstants(): {
+    PERFORMANCE_LEVELS: {
+      EXCELLENT: string;
+      HIGH: string;
+      AVERAGE: string;
+      LOW: string;
+    };
+    PERFORMANCE_CLASSES: {
+      CPU: string;
+      MEMORY: string;
+      NETWORK: string;
+      STORAGE: string;
+      BATTERY: string;
+      THERMAL: string;
+      POWER_SAVE: string;
+    };
+    EVENTS: {
+      PERFORMANCE: string;
+      ERROR: string;
+      MEMORY_PRESSURE: string;
+      LIFECYCLE: string;
+    };
+  };
+  initialize(config: Object): Promise<Object>;
+  getPerformanceLevel(performanceClasses: string[]): Promise<Object>;
+  getWeightedPerformanceLevel(
+    weightedClasses: { performanceClass: string; weight: number }[]
+  ): Promise<Object>;
+  startMonitoring(
+    performanceClasses: string[],
+    intervalMs: number
+  ): Promise<string>;
+  startWeightedMonitoring(
+    weightedClasses: { performanceClass: string; weight: number }[],
+    intervalMs: number
+  ): Promise<string>;
+  startEventMonitoring(
+    performanceClasses: string[],
+    fallbackIntervalMs: number
+  ): Promise<string>;
+  pauseMonitoring(monitoringId: string): Promise<boolean>;
+  resumeMonitoring(monitoringId: string, intervalMs: number): Promise<boolean>;
+  updateMonitoring(
+    monitoringId: string,
+    weightedClasses: { performanceClass: string; weight: number }[],
+    weighted: boolean,
+    intervalMs: number
+  ): Promise<boolean>;
+  stopMonitoring(monitoringId: string): Promise<boolean>;
+  stopAllMonitoring(): Promise<boolean>;
+  getPlatformInfo(): Promise<Object>;
+  getStoredValue(key: string): Promise<string | null>;
+  setStoredValue(key: string, value: string | null): Promise<boolean>;
+
+  // Required by NativeEventEmitter
+  addListener(eventName: string): void;
+  removeListeners(count: number): void;
+}
+
+export default TurboModuleRegistry.get<Spec>('DroidDex');
@@ -0,0 +1,47 @@
+import {
+  createSimulatorBackend,
+  getCurrentSnapshot,
+  initialize,
+  setBackend,
+  stopAllMonitoring,
+  PerformanceLevel,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+
+describe('getCurrentSnapshot', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({ levels: [PerformanceLevel.AVERAGE] });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('returns the latest result of the global monitor', async () => {
+    await initialize({ autoMonitoring: true });
+    expect(getCurrentSnapshot()).toBeNull();
+
+    simulator.tick();
+    expect(getCurrentSnapshot()?.level).toBe(PerformanceLevel.AVERAGE);
+  });
+
+  it('forgets the result once auto monitoring stops', async () => {
+    await initialize({ autoMonitoring: true });
+    simulator.tick();
+    expect(getCurrentSnapshot()).not.toBeNull();
+
+    await initialize({ autoMonitoring: false });
+    expect(getCurrentSnapshot()).toBeNull();
+
+    await initialize({ autoMonitoring: true });
+    simulator.tick();
+    await stopAllMonitoring();
+    expect(getCurrentSnapshot()).toBeNull();
+  });
+});
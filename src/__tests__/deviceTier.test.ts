@@ -0,0 +1,71 @@
+import {
+  clearDeviceTierCache,
+  createSimulatorBackend,
+  getDeviceTier,
+  getDeviceTierSync,
+  setBackend,
+  PerformanceLevel,
+} from '../index';
+
+function createCachedTier(): string {
+  return JSON.stringify({
+    tier: PerformanceLevel.LOW,
+    totalRam: 1e9,
+    coreCount: 4,
+    apiLevel: 33,
+    model: 'DroidDex Simulator',
+    computedAt: Date.now(),
+    fromCache: false,
+  });
+}
+
+describe('getDeviceTier', () => {
+  beforeEach(() => {
+    setBackend(
+      createSimulatorBackend({
+        profile: 'flagship',
+        storage: { deviceTier: createCachedTier() },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await clearDeviceTierCache();
+    setBackend(null);
+  });
+
+  it('shares a pending resolution between concurrent calls', async () => {
+    const first = getDeviceTier();
+    expect(getDeviceTier()).toBe(first);
+    await expect(first).resolves.toMatchObject({
+      tier: PerformanceLevel.LOW,
+      fromCache: true,
+    });
+  });
+
+  it('starts a new resolution on refresh while one is pending', async () => {
+    const cached = getDeviceTier();
+    const refreshed = getDeviceTier({ refresh: true });
+    expect(refreshed).not.toBe(cached);
+    expect(getDeviceTier()).toBe(refreshed);
+
+    await expect(cached).resolves.toMatchObject({ fromCache: true });
+    await expect(refreshed).resolves.toMatchObject({
+      tier: PerformanceLevel.EXCELLENT,
+      fromCache: false,
+    });
+    expect(getDeviceTierSync()).toMatchObject({ fromCache: false });
+  });
+
+  it('drops the pending resolution when the cache is cleared', async () => {
+    const pending = getDeviceTier();
+    await clearDeviceTierCache();
+    await pending;
+    expect(getDeviceTierSync()).toBeNull();
+
+    // The cleared LOW tier is not read back
+    const tier = await getDeviceTier();
+    expect(tier.tier).toBe(PerformanceLevel.EXCELLENT);
+    expect(getDeviceTierSync()).toBe(tier);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  addErrorListener,
+  createSimulatorBackend,
+  getPerformanceLevel,
+  isDroidDexError,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  DroidDexError,
+  DroidDexMonitoringError,
+  DroidDexPerformanceError,
+  DroidDexUnsupportedError,
+  PerformanceClass,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+import { toDroidDexError } from '../errors';
+
+describe('toDroidDexError', () => {
+  it('keeps a known native code and its matching subclass', () => {
+    const error = toDroidDexError(
+      { code: 'NO_SUPPORTED_CLASSES', message: 'nothing to measure' },
+      'PERFORMANCE_ERROR'
+    );
+    expect(error).toBeInstanceOf(DroidDexUnsupportedError);
+    expect(error.code).toBe('NO_SUPPORTED_CLASSES');
+    expect(error.message).toBe('nothing to measure');
+    expect(error.recoverable).toBe(false);
+  });
+
+  it('falls back to the given code for unknown failures', () => {
+    const cause = new Error('bridge exploded');
+    const error = toDroidDexError(cause, 'MONITORING_ERROR', {
+      monitoringId: 'monitor-1',
+    });
+    expect(error).toBeInstanceOf(DroidDexMonitoringError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.cause).toBe(cause);
+    expect(error.monitoringId).toBe('monitor-1');
+    expect(error.recoverable).toBe(true);
+  });
+
+  it('returns DroidDexErrors unchanged', () => {
+    const error = new DroidDexPerformanceError('failed');
+    expect(toDroidDexError(error, 'UNKNOWN_ERROR')).toBe(error);
+  });
+});
+
+describe('native calls', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend();
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('rejects with a DroidDexError when the native call rejects', async () => {
+    jest
+      .spyOn(simulator, 'getPerformanceLevel')
+      .mockRejectedValue({ code: 'E_UNKNOWN', message: 'no reading' });
+
+    const error = await getPerformanceLevel([PerformanceClass.CPU]).catch(
+      (reason) => reason
+    );
+    expect(isDroidDexError(error, 'PERFORMANCE_ERROR')).toBe(true);
+    expect(error.message).toBe('no reading');
+    expect(error.performanceClasses).toEqual([PerformanceClass.CPU]);
+  });
+
+  it('rejects instead of throwing when the native call throws', async () => {
+    jest.spyOn(simulator, 'startMonitoring').mockImplementation(() => {
+      throw new Error('module not ready');
+    });
+
+    let result: Promise<string> | undefined;
+    expect(() => {
+      result = startMonitoring([PerformanceClass.CPU], 1000);
+    }).not.toThrow();
+    const error = await (result as Promise<string>).catch((reason) => reason);
+    expect(error).toBeInstanceOf(DroidDexError);
+    expect(error.code).toBe('MONITORING_ERROR');
+  });
+
+  it('delivers monitoring error events as DroidDexErrors', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const onError = jest.fn();
+    addErrorListener(monitoringId, onError);
+
+    simulator.emitError(monitoringId, 'sampling failed');
+    expect(onError).toHaveBeenCalledTimes(1);
+    const [error] = onError.mock.calls[0];
+    expect(isDroidDexError(error, 'MONITORING_ERROR')).toBe(true);
+    expect(error.monitoringId).toBe(monitoringId);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  createSimulatorBackend,
+  disableForProduction,
+  disablePerformanceHistory,
+  enablePerformanceHistory,
+  getPerformanceHistory,
+  getPerformanceHistoryStats,
+  isDroidDexError,
+  isLevelSustained,
+  removePerformanceListener,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceHistoryOptions, SimulatorBackend } from '../index';
+
+describe('performance history', () => {
+  let simulator: SimulatorBackend;
+  let monitoringId: string;
+
+  // Move the clock without running the monitor timers
+  const sampleAt = (time: number, level: PerformanceLevel) => {
+    jest.setSystemTime(time);
+    simulator.setLevel(level);
+    simulator.tick(monitoringId);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+    simulator = createSimulatorBackend({ profile: 'mid-range' });
+    setBackend(simulator);
+    monitoringId = await startMonitoring([PerformanceClass.CPU], 60000);
+  });
+
+  afterEach(async () => {
+    disablePerformanceHistory(monitoringId);
+    disableForProduction(false);
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('keeps the most recent samples up to the capacity', () => {
+    enablePerformanceHistory(monitoringId, { capacity: 3 });
+    [
+      PerformanceLevel.EXCELLENT,
+      PerformanceLevel.HIGH,
+      PerformanceLevel.AVERAGE,
+      PerformanceLevel.LOW,
+      PerformanceLevel.HIGH,
+    ].forEach((level, index) => sampleAt(1000 * (index + 1), level));
+
+    expect(
+      getPerformanceHistory(monitoringId).map((sample) => sample.level)
+    ).toEqual([
+      PerformanceLevel.AVERAGE,
+      PerformanceLevel.LOW,
+      PerformanceLevel.HIGH,
+    ]);
+  });
+
+  it('drops samples older than the window', () => {
+    enablePerformanceHistory(monitoringId, { windowMs: 5000 });
+    sampleAt(1000, PerformanceLevel.HIGH);
+    sampleAt(4000, PerformanceLevel.AVERAGE);
+    sampleAt(7000, PerformanceLevel.LOW);
+
+    expect(
+      getPerformanceHistory(monitoringId).map((sample) => sample.timestamp)
+    ).toEqual([4000, 7000]);
+    expect(
+      getPerformanceHistory(monitoringId, 2000).map((sample) => sample.level)
+    ).toEqual([PerformanceLevel.LOW]);
+
+    jest.setSystemTime(20000);
+    expect(getPerformanceHistory(monitoringId)).toEqual([]);
+  });
+
+  it('computes the distribution, time in level and trend', () => {
+    enablePerformanceHistory(monitoringId);
+    sampleAt(0, PerformanceLevel.EXCELLENT);
+    sampleAt(1000, PerformanceLevel.EXCELLENT);
+    sampleAt(3000, PerformanceLevel.LOW);
+    sampleAt(4000, PerformanceLevel.LOW);
+    jest.setSystemTime(6000);
+
+    const stats = getPerformanceHistoryStats(monitoringId);
+    expect(stats.sampleCount).toBe(4);
+    expect(stats.levelDistribution).toEqual({
+      [PerformanceLevel.EXCELLENT]: 2,
+      [PerformanceLevel.HIGH]: 0,
+      [PerformanceLevel.AVERAGE]: 0,
+      [PerformanceLevel.LOW]: 2,
+    });
+    expect(stats.timeInLevel[PerformanceLevel.EXCELLENT]).toBe(3000);
+    expect(stats.timeInLevel[PerformanceLevel.LOW]).toBe(3000);
+    expect(stats.trend).toBe('DEGRADING');
+
+    const { min, max, mean } = stats.metrics.cpu?.totalRam ?? {};
+    expect(min).toBeLessThanOrEqual(mean as number);
+    expect(max).toBeGreaterThanOrEqual(mean as number);
+  });
+
+  it('reports a level as sustained only when the history covers the duration', () => {
+    enablePerformanceHistory(monitoringId);
+    sampleAt(1000, PerformanceLevel.HIGH);
+    sampleAt(2000, PerformanceLevel.LOW);
+    sampleAt(3000, PerformanceLevel.LOW);
+    jest.setSystemTime(5000);
+
+    expect(isLevelSustained(monitoringId, PerformanceLevel.LOW, 3000)).toBe(
+      true
+    );
+    expect(isLevelSustained(monitoringId, PerformanceLevel.LOW, 4000)).toBe(
+      false
+    );
+    expect(isLevelSustained(monitoringId, PerformanceLevel.LOW, 10000)).toBe(
+      false
+    );
+  });
+
+  it('records through the listener registry', () => {
+    disableForProduction(true);
+    enablePerformanceHistory(monitoringId);
+    sampleAt(1000, PerformanceLevel.HIGH);
+    expect(getPerformanceHistory(monitoringId)).toEqual([]);
+
+    disableForProduction(false);
+    enablePerformanceHistory(monitoringId);
+    sampleAt(2000, PerformanceLevel.HIGH);
+    removePerformanceListener(monitoringId);
+    sampleAt(3000, PerformanceLevel.LOW);
+    expect(getPerformanceHistory(monitoringId)).toHaveLength(1);
+  });
+
+  it.each<[PerformanceHistoryOptions, string]>([
+    [{ capacity: NaN }, 'options.capacity'],
+    [{ capacity: 0 }, 'options.capacity'],
+    [{ capacity: 2.5 }, 'options.capacity'],
+    [{ windowMs: NaN }, 'options.windowMs'],
+    [{ windowMs: -1 }, 'options.windowMs'],
+  ])('rejects %p', (options, path) => {
+    let error: unknown;
+    try {
+      enablePerformanceHistory(monitoringId, options);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(isDroidDexError(error, 'INVALID_ARGUMENT')).toBe(true);
+    expect(error).toMatchObject({ path });
+  });
+});
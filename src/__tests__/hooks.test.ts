@@ -0,0 +1,105 @@
+import {
+  createSimulatorBackend,
+  isDroidDexError,
+  setBackend,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+import { subscribeToSharedMonitor } from '../hooks';
+
+const { setImmediate: realSetImmediate } = jest.requireActual('timers');
+
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => realSetImmediate(resolve));
+}
+
+describe('subscribeToSharedMonitor', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      levels: [PerformanceLevel.HIGH],
+      supportedClasses: [PerformanceClass.CPU, PerformanceClass.MEMORY],
+    });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('shares one monitor between subscribers of the same classes', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribeToSharedMonitor(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY],
+      1000,
+      first
+    );
+    const unsubscribeSecond = subscribeToSharedMonitor(
+      [PerformanceClass.MEMORY, PerformanceClass.CPU],
+      1000,
+      second
+    );
+    await flushPromises();
+    expect(simulator.getActiveMonitors()).toHaveLength(1);
+
+    simulator.tick();
+    expect(first).toHaveBeenLastCalledWith(
+      expect.objectContaining({ level: PerformanceLevel.HIGH }),
+      null
+    );
+    expect(second).toHaveBeenCalledTimes(first.mock.calls.length);
+
+    unsubscribeFirst();
+    await flushPromises();
+    expect(simulator.getActiveMonitors()).toHaveLength(1);
+
+    unsubscribeSecond();
+    await flushPromises();
+    expect(simulator.getActiveMonitors()).toEqual([]);
+  });
+
+  it('gives a late subscriber the latest result', async () => {
+    const unsubscribe = subscribeToSharedMonitor(
+      [PerformanceClass.CPU],
+      1000,
+      () => {}
+    );
+    await flushPromises();
+    simulator.tick();
+
+    const late = jest.fn();
+    subscribeToSharedMonitor([PerformanceClass.CPU], 1000, late);
+    expect(late).toHaveBeenCalledWith(
+      expect.objectContaining({ level: PerformanceLevel.HIGH }),
+      null
+    );
+    unsubscribe();
+  });
+
+  it('surfaces a failed start and retries for the next subscriber', async () => {
+    const start = jest.spyOn(simulator, 'startMonitoring');
+    const failed = jest.fn();
+    subscribeToSharedMonitor([PerformanceClass.THERMAL], 1000, failed);
+    await flushPromises();
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][0]).toBeNull();
+    expect(
+      isDroidDexError(failed.mock.calls[0][1], 'NO_SUPPORTED_CLASSES')
+    ).toBe(true);
+
+    const retried = jest.fn();
+    subscribeToSharedMonitor([PerformanceClass.THERMAL], 1000, retried);
+    await flushPromises();
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(retried).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  createLevelChangeDetector,
+  createSimulatorBackend,
+  disableForProduction,
+  onLevelChange,
+  removePerformanceListener,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type {
+  LevelChangeDetector,
+  PerformanceResult,
+  SimulatorBackend,
+} from '../index';
+
+function createResult(
+  level: PerformanceLevel,
+  timestamp: number
+): PerformanceResult {
+  return {
+    level,
+    metrics: {},
+    timestamp,
+    supportedClasses: [PerformanceClass.CPU],
+    unsupportedClasses: [],
+    breakdown: {},
+  };
+}
+
+/**
+ * Feed one sample per second and return the levels reported
+ */
+function feed(
+  detectLevelChange: LevelChangeDetector,
+  levels: PerformanceLevel[]
+): (PerformanceLevel | null)[] {
+  return levels.map((level, index) => {
+    const event = detectLevelChange(createResult(level, index * 1000));
+    return event && event.level;
+  });
+}
+
+describe('createLevelChangeDetector', () => {
+  const { EXCELLENT, HIGH, AVERAGE, LOW } = PerformanceLevel;
+
+  it('reports the first sample', () => {
+    const detectLevelChange = createLevelChangeDetector();
+    expect(detectLevelChange(createResult(HIGH, 0))).toEqual({
+      level: HIGH,
+      previousLevel: null,
+      result: createResult(HIGH, 0),
+    });
+  });
+
+  it('downgrades immediately and upgrades after 3 better samples by default', () => {
+    expect(
+      feed(createLevelChangeDetector(), [HIGH, LOW, HIGH, HIGH, HIGH, HIGH])
+    ).toEqual([HIGH, LOW, null, null, HIGH, null]);
+  });
+
+  it('restarts counting when a sample goes back to the reported level', () => {
+    expect(
+      feed(createLevelChangeDetector({ downgradeSamples: 2 }), [
+        HIGH,
+        LOW,
+        HIGH,
+        LOW,
+        AVERAGE,
+      ])
+    ).toEqual([HIGH, null, null, null, AVERAGE]);
+  });
+
+  it('restarts counting when the direction changes', () => {
+    expect(
+      feed(
+        createLevelChangeDetector({ downgradeSamples: 2, upgradeSamples: 2 }),
+        [HIGH, LOW, EXCELLENT, LOW, LOW]
+      )
+    ).toEqual([HIGH, null, null, null, LOW]);
+  });
+
+  it('waits for the dwell time of the direction', () => {
+    const detectLevelChange = createLevelChangeDetector({
+      downgradeSamples: 1,
+      downgradeDwellMs: 2000,
+      upgradeSamples: 1,
+      upgradeDwellMs: 0,
+    });
+    expect(feed(detectLevelChange, [HIGH, LOW, LOW, LOW])).toEqual([
+      HIGH,
+      null,
+      null,
+      LOW,
+    ]);
+    expect(detectLevelChange(createResult(HIGH, 4000))?.previousLevel).toBe(
+      LOW
+    );
+  });
+});
+
+describe('onLevelChange', () => {
+  let simulator: SimulatorBackend;
+  let monitoringId: string;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend();
+    setBackend(simulator);
+    monitoringId = await startMonitoring([PerformanceClass.CPU], 60000);
+  });
+
+  afterEach(async () => {
+    disableForProduction(false);
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  const tickAt = (level: PerformanceLevel) => {
+    simulator.setLevel(level);
+    simulator.tick(monitoringId);
+  };
+
+  it('only notifies the level changes of the monitor', () => {
+    const listener = jest.fn();
+    onLevelChange(monitoringId, listener, { upgradeSamples: 1 });
+
+    tickAt(PerformanceLevel.HIGH);
+    tickAt(PerformanceLevel.HIGH);
+    tickAt(PerformanceLevel.LOW);
+    expect(listener.mock.calls.map(([event]) => event.level)).toEqual([
+      PerformanceLevel.HIGH,
+      PerformanceLevel.LOW,
+    ]);
+    expect(listener.mock.calls[1][0].previousLevel).toBe(PerformanceLevel.HIGH);
+  });
+
+  it('follows the listener registry', () => {
+    const listener = jest.fn();
+    disableForProduction(true);
+    onLevelChange(monitoringId, listener);
+    tickAt(PerformanceLevel.HIGH);
+    expect(listener).not.toHaveBeenCalled();
+
+    disableForProduction(false);
+    removePerformanceListener(monitoringId);
+    onLevelChange(monitoringId, listener);
+    tickAt(PerformanceLevel.HIGH);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    removePerformanceListener(monitoringId);
+    tickAt(PerformanceLevel.LOW);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
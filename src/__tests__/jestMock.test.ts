@@ -0,0 +1,24 @@
+import {
+  getPerformanceLevel,
+  getPlatformInfo,
+  isSupported,
+  PerformanceClass,
+} from 'react-native-droid-dex';
+
+jest.mock('react-native-droid-dex', () =>
+  require('react-native-droid-dex/jest')
+);
+
+describe('jest mock', () => {
+  it('runs the real API on the simulator backend', async () => {
+    expect(isSupported()).toBe(true);
+    await expect(getPlatformInfo()).resolves.toMatchObject({
+      platform: 'simulator',
+      supported: true,
+    });
+
+    const result = await getPerformanceLevel(PerformanceClass.CPU);
+    expect(result.supportedClasses).toEqual([PerformanceClass.CPU]);
+    expect(result.metrics.cpu).toBeDefined();
+  });
+});
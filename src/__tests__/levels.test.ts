@@ -0,0 +1,122 @@
+import {
+  compareLevels,
+  createSimulatorBackend,
+  getLimitingClass,
+  getPerformanceLevel,
+  getWeightedPerformanceLevel,
+  setBackend,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult } from '../index';
+
+const { EXCELLENT, HIGH, AVERAGE, LOW } = PerformanceLevel;
+const { CPU, MEMORY, NETWORK } = PerformanceClass;
+
+function createResult(
+  breakdown: PerformanceResult['breakdown'],
+  supportedClasses = Object.keys(breakdown) as PerformanceClass[]
+): PerformanceResult {
+  return {
+    level: HIGH,
+    metrics: {},
+    timestamp: 0,
+    supportedClasses,
+    unsupportedClasses: [],
+    breakdown,
+  };
+}
+
+describe('compareLevels', () => {
+  it('orders levels from worst to best', () => {
+    expect(compareLevels(LOW, AVERAGE)).toBeLessThan(0);
+    expect(compareLevels(EXCELLENT, HIGH)).toBeGreaterThan(0);
+    expect(compareLevels(AVERAGE, AVERAGE)).toBe(0);
+    expect([HIGH, LOW, EXCELLENT, AVERAGE].sort(compareLevels)).toEqual([
+      LOW,
+      AVERAGE,
+      HIGH,
+      EXCELLENT,
+    ]);
+  });
+});
+
+describe('getLimitingClass', () => {
+  it('returns the class with the worst level', () => {
+    expect(
+      getLimitingClass(
+        createResult({
+          [CPU]: { level: HIGH, metrics: null },
+          [MEMORY]: { level: AVERAGE, metrics: null },
+          [NETWORK]: { level: EXCELLENT, metrics: null },
+        })
+      )
+    ).toBe(MEMORY);
+  });
+
+  it('breaks ties by weight, then by the first supported class', () => {
+    expect(
+      getLimitingClass(
+        createResult({
+          [CPU]: { level: LOW, metrics: null, weight: 0.25 },
+          [MEMORY]: { level: LOW, metrics: null, weight: 0.75 },
+        })
+      )
+    ).toBe(MEMORY);
+    expect(
+      getLimitingClass(
+        createResult(
+          {
+            [CPU]: { level: LOW, metrics: null },
+            [MEMORY]: { level: LOW, metrics: null },
+          },
+          [MEMORY, CPU]
+        )
+      )
+    ).toBe(MEMORY);
+  });
+
+  it('returns null without a breakdown', () => {
+    expect(getLimitingClass(createResult({}, [CPU]))).toBeNull();
+  });
+});
+
+describe('breakdown', () => {
+  afterEach(() => {
+    setBackend(null);
+  });
+
+  it('reports the level of each supported class', async () => {
+    const simulator = createSimulatorBackend({
+      supportedClasses: [CPU, MEMORY],
+    });
+    simulator.setClassLevel(CPU, EXCELLENT);
+    simulator.setClassLevel(MEMORY, LOW);
+    setBackend(simulator);
+
+    const result = await getPerformanceLevel([CPU, MEMORY, NETWORK]);
+    expect(Object.keys(result.breakdown)).toEqual([CPU, MEMORY]);
+    expect(result.breakdown[CPU]?.level).toBe(EXCELLENT);
+    expect(result.breakdown[MEMORY]?.level).toBe(LOW);
+    expect(getLimitingClass(result)).toBe(MEMORY);
+  });
+
+  it('reports the weight of each class in weighted results', async () => {
+    const simulator = createSimulatorBackend({
+      supportedClasses: [CPU, MEMORY],
+    });
+    simulator.setClassLevel(CPU, LOW);
+    simulator.setClassLevel(MEMORY, LOW);
+    setBackend(simulator);
+
+    const result = await getWeightedPerformanceLevel([
+      { performanceClass: CPU, weight: 1 },
+      { performanceClass: MEMORY, weight: 2 },
+      { performanceClass: NETWORK, weight: 1 },
+    ]);
+    // The weights are renormalized over the supported classes
+    expect(result.breakdown[CPU]?.weight).toBeCloseTo(1 / 3);
+    expect(result.breakdown[MEMORY]?.weight).toBeCloseTo(2 / 3);
+    expect(getLimitingClass(result)).toBe(MEMORY);
+  });
+});
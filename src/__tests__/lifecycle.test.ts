@@ -0,0 +1,126 @@
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import {
+  addLifecycleListener,
+  addPerformanceListener,
+  createSimulatorBackend,
+  getMonitor,
+  pauseMonitor,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+
+const { setImmediate: realSetImmediate } = jest.requireActual('timers');
+
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => realSetImmediate(resolve));
+}
+
+/**
+ * Move the app to a state through the handler registered with the mocked
+ * AppState
+ */
+async function changeAppState(state: AppStateStatus): Promise<void> {
+  const { calls } = (AppState.addEventListener as jest.Mock).mock;
+  const handler: (nextState: AppStateStatus) => void =
+    calls[calls.length - 1][1];
+  handler(state);
+  await flushPromises();
+}
+
+describe('monitor lifecycle policy', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend();
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('pauses in the background and resumes in the foreground', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000, {
+      pauseInBackground: true,
+    });
+    const lifecycle = jest.fn();
+    const performance = jest.fn();
+    addLifecycleListener(monitoringId, lifecycle);
+    addPerformanceListener(monitoringId, performance);
+    jest.advanceTimersByTime(0);
+    expect(performance).toHaveBeenCalledTimes(1);
+
+    await changeAppState('background');
+    expect(getMonitor(monitoringId).paused).toBe(true);
+    jest.advanceTimersByTime(5000);
+    expect(performance).toHaveBeenCalledTimes(1);
+
+    await changeAppState('active');
+    expect(getMonitor(monitoringId).paused).toBe(false);
+    jest.advanceTimersByTime(0);
+    expect(performance).toHaveBeenCalledTimes(2);
+    expect(lifecycle.mock.calls.map(([event]) => event.state)).toEqual([
+      'paused',
+      'resumed',
+    ]);
+  });
+
+  it('keeps the policy on transient states', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000, {
+      pauseInBackground: true,
+    });
+    await changeAppState('inactive');
+    expect(getMonitor(monitoringId).paused).toBe(false);
+  });
+
+  it('samples at the background interval without pausing', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000, {
+      backgroundIntervalMs: 10000,
+    });
+    const resume = jest.spyOn(simulator, 'resumeMonitoring');
+    const lifecycle = jest.fn();
+    addLifecycleListener(monitoringId, lifecycle);
+
+    await changeAppState('background');
+    await changeAppState('active');
+    expect(resume.mock.calls).toEqual([
+      [monitoringId, 10000],
+      [monitoringId, 1000],
+    ]);
+    expect(getMonitor(monitoringId).paused).toBe(false);
+    expect(lifecycle).not.toHaveBeenCalled();
+  });
+
+  it('never resumes a monitor paused with pauseMonitor', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000, {
+      pauseInBackground: true,
+    });
+    await changeAppState('background');
+    await pauseMonitor(monitoringId);
+
+    await changeAppState('active');
+    expect(getMonitor(monitoringId).paused).toBe(true);
+  });
+
+  it('ignores monitors without a policy', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const pause = jest.spyOn(simulator, 'pauseMonitoring');
+    const resume = jest.spyOn(simulator, 'resumeMonitoring');
+
+    await startMonitoring([PerformanceClass.MEMORY], 1000, {
+      pauseInBackground: true,
+    });
+    await changeAppState('background');
+    await changeAppState('active');
+    expect(pause.mock.calls.map(([id]) => id)).not.toContain(monitoringId);
+    expect(resume.mock.calls.map(([id]) => id)).not.toContain(monitoringId);
+  });
+});
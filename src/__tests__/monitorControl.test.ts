@@ -0,0 +1,169 @@
+import {
+  addLifecycleListener,
+  addPerformanceListener,
+  createSimulatorBackend,
+  getMonitor,
+  isDroidDexError,
+  pauseMonitor,
+  resumeMonitor,
+  setBackend,
+  startMonitoring,
+  startThresholdMonitoring,
+  stopAllMonitoring,
+  updateMonitor,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+
+describe('updateMonitor', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      supportedClasses: [PerformanceClass.CPU, PerformanceClass.MEMORY],
+    });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('changes the interval and classes in place', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const update = jest.spyOn(simulator, 'updateMonitoring');
+
+    const info = await updateMonitor(monitoringId, {
+      classes: [PerformanceClass.CPU, PerformanceClass.MEMORY],
+      intervalMs: 5000,
+    });
+    expect(update).toHaveBeenCalledWith(
+      monitoringId,
+      [
+        { performanceClass: PerformanceClass.CPU, weight: 1 },
+        { performanceClass: PerformanceClass.MEMORY, weight: 1 },
+      ],
+      false,
+      5000
+    );
+    expect(info).toMatchObject({
+      monitoringId,
+      type: 'standard',
+      performanceClasses: [PerformanceClass.CPU, PerformanceClass.MEMORY],
+      intervalMs: 5000,
+    });
+    expect(getMonitor(monitoringId)).toEqual(info);
+    expect(simulator.getActiveMonitors()).toEqual([monitoringId]);
+  });
+
+  it('turns a standard monitor into a weighted one', async () => {
+    const monitoringId = await startMonitoring(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY],
+      1000
+    );
+    const info = await updateMonitor(monitoringId, {
+      weights: { [PerformanceClass.CPU]: 3 },
+    });
+    expect(info.type).toBe('weighted');
+    expect(info.weights).toEqual({
+      [PerformanceClass.CPU]: 0.75,
+      [PerformanceClass.MEMORY]: 0.25,
+    });
+  });
+
+  it('rejects unknown monitors, threshold monitors and empty classes', async () => {
+    const unknown = await updateMonitor('unknown', { intervalMs: 10 }).catch(
+      (reason) => reason
+    );
+    expect(isDroidDexError(unknown, 'MONITOR_NOT_FOUND')).toBe(true);
+
+    const thresholdId = await startThresholdMonitoring([
+      { performanceClass: PerformanceClass.CPU, level: PerformanceLevel.LOW },
+    ]);
+    const threshold = await updateMonitor(thresholdId, {
+      intervalMs: 10,
+    }).catch((reason) => reason);
+    expect(isDroidDexError(threshold, 'MONITORING_ERROR')).toBe(true);
+
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const empty = await updateMonitor(monitoringId, { classes: [] }).catch(
+      (reason) => reason
+    );
+    expect(isDroidDexError(empty, 'INVALID_ARGUMENT')).toBe(true);
+    expect(getMonitor(monitoringId).performanceClasses).toEqual([
+      PerformanceClass.CPU,
+    ]);
+  });
+
+  it('keeps the monitor unchanged when the classes are unsupported', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const error = await updateMonitor(monitoringId, {
+      classes: [PerformanceClass.THERMAL],
+      intervalMs: 5000,
+    }).catch((reason) => reason);
+
+    expect(isDroidDexError(error, 'NO_SUPPORTED_CLASSES')).toBe(true);
+    expect(getMonitor(monitoringId)).toMatchObject({
+      performanceClasses: [PerformanceClass.CPU],
+      intervalMs: 1000,
+    });
+  });
+});
+
+describe('pauseMonitor and resumeMonitor', () => {
+  let monitoringId: string;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    setBackend(createSimulatorBackend());
+    monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('stops sampling until resumed', async () => {
+    const performance = jest.fn();
+    const lifecycle = jest.fn();
+    addPerformanceListener(monitoringId, performance);
+    addLifecycleListener(monitoringId, lifecycle);
+    jest.advanceTimersByTime(0);
+    expect(performance).toHaveBeenCalledTimes(1);
+
+    await expect(pauseMonitor(monitoringId)).resolves.toBe(true);
+    expect(getMonitor(monitoringId).paused).toBe(true);
+    jest.advanceTimersByTime(5000);
+    expect(performance).toHaveBeenCalledTimes(1);
+
+    await expect(resumeMonitor(monitoringId)).resolves.toBe(true);
+    expect(getMonitor(monitoringId).paused).toBe(false);
+    // Resumed monitors sample right away
+    jest.advanceTimersByTime(0);
+    expect(performance).toHaveBeenCalledTimes(2);
+    expect(lifecycle.mock.calls.map(([event]) => event.state)).toEqual([
+      'paused',
+      'resumed',
+    ]);
+  });
+
+  it('resolves to false when the state does not change', async () => {
+    await expect(resumeMonitor(monitoringId)).resolves.toBe(false);
+    await pauseMonitor(monitoringId);
+    await expect(pauseMonitor(monitoringId)).resolves.toBe(false);
+  });
+
+  it('rejects unknown monitors', async () => {
+    const paused = await pauseMonitor('unknown').catch((reason) => reason);
+    const resumed = await resumeMonitor('unknown').catch((reason) => reason);
+    expect(isDroidDexError(paused, 'MONITOR_NOT_FOUND')).toBe(true);
+    expect(isDroidDexError(resumed, 'MONITOR_NOT_FOUND')).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  createPerformancePolicy,
+  createSimulatorBackend,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult, SimulatorBackend } from '../index';
+
+const { EXCELLENT, HIGH, AVERAGE, LOW } = PerformanceLevel;
+
+const createPolicy = () =>
+  createPerformancePolicy({
+    imageQuality: { EXCELLENT: 'hd', LOW: 'sd' },
+    animations: { HIGH: true, AVERAGE: false },
+    prefetchDepth: {
+      levels: { EXCELLENT: 10, HIGH: 5, LOW: 1 },
+      performanceClasses: [PerformanceClass.NETWORK],
+    },
+  });
+
+describe('createPerformancePolicy', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      supportedClasses: [
+        PerformanceClass.CPU,
+        PerformanceClass.MEMORY,
+        PerformanceClass.NETWORK,
+      ],
+    });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('falls back to the closest level, preferring the worse one', () => {
+    const policy = createPolicy();
+    expect(policy.evaluate(EXCELLENT)).toEqual({
+      imageQuality: 'hd',
+      animations: true,
+      prefetchDepth: 10,
+    });
+    expect(policy.evaluate(AVERAGE)).toEqual({
+      imageQuality: 'sd',
+      animations: false,
+      prefetchDepth: 1,
+    });
+    expect(policy.evaluate(HIGH)).toEqual({
+      imageQuality: 'hd',
+      animations: true,
+      prefetchDepth: 5,
+    });
+
+    // Typed from the definition
+    const depth: number = policy.evaluate(LOW).prefetchDepth;
+    expect(depth).toBe(1);
+  });
+
+  it('drives class rules from the breakdown of the result', () => {
+    const result: PerformanceResult = {
+      level: EXCELLENT,
+      metrics: {},
+      timestamp: 0,
+      supportedClasses: [PerformanceClass.CPU, PerformanceClass.NETWORK],
+      unsupportedClasses: [],
+      breakdown: {
+        [PerformanceClass.CPU]: { level: EXCELLENT, metrics: null },
+        [PerformanceClass.NETWORK]: { level: LOW, metrics: null },
+      },
+    };
+    expect(createPolicy().evaluate(result)).toEqual({
+      imageQuality: 'hd',
+      animations: true,
+      prefetchDepth: 1,
+    });
+  });
+
+  it('queries the classes of the rules the result does not cover', async () => {
+    simulator.setClassLevel(PerformanceClass.NETWORK, LOW);
+    simulator.setLevel(EXCELLENT);
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+
+    const settings = await createPolicy().resolve(PerformanceClass.CPU);
+    expect(query.mock.calls.map(([classes]) => classes)).toEqual([
+      [PerformanceClass.CPU],
+      [PerformanceClass.NETWORK],
+    ]);
+    expect(settings).toEqual({
+      imageQuality: 'hd',
+      animations: true,
+      prefetchDepth: 1,
+    });
+  });
+
+  it('follows the classes of a class rule while the overall level stays', async () => {
+    const monitoringId = await startMonitoring(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY, PerformanceClass.NETWORK],
+      60000
+    );
+    const listener = jest.fn();
+    createPolicy().watch(monitoringId, listener);
+
+    // The mean of the classes stays HIGH while NETWORK drops
+    simulator.setClassLevel(PerformanceClass.CPU, AVERAGE);
+    simulator.setClassLevel(PerformanceClass.MEMORY, HIGH);
+    simulator.setClassLevel(PerformanceClass.NETWORK, EXCELLENT);
+    simulator.tick(monitoringId);
+    simulator.setClassLevel(PerformanceClass.CPU, EXCELLENT);
+    simulator.setClassLevel(PerformanceClass.NETWORK, LOW);
+    simulator.tick(monitoringId);
+
+    expect(listener.mock.calls.map(([, result]) => result.level)).toEqual([
+      HIGH,
+      HIGH,
+    ]);
+    expect(listener.mock.calls.map(([settings]) => settings)).toEqual([
+      { imageQuality: 'hd', animations: true, prefetchDepth: 10 },
+      { imageQuality: 'hd', animations: true, prefetchDepth: 1 },
+    ]);
+  });
+
+  it('applies hysteresis to the classes of a class rule', async () => {
+    const monitoringId = await startMonitoring(
+      [PerformanceClass.CPU, PerformanceClass.NETWORK],
+      60000
+    );
+    const listener = jest.fn();
+    createPolicy().watch(monitoringId, listener, { upgradeSamples: 2 });
+
+    simulator.setClassLevel(PerformanceClass.CPU, HIGH);
+    simulator.setClassLevel(PerformanceClass.NETWORK, LOW);
+    simulator.tick(monitoringId);
+    simulator.setClassLevel(PerformanceClass.NETWORK, EXCELLENT);
+    simulator.tick(monitoringId);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    simulator.tick(monitoringId);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].prefetchDepth).toBe(10);
+  });
+});
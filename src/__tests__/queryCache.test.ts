@@ -0,0 +1,133 @@
+import {
+  createSimulatorBackend,
+  getPerformanceLevel,
+  initialize,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult, SimulatorBackend } from '../index';
+
+describe('query cache', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      levels: [PerformanceLevel.HIGH],
+      supportedClasses: [
+        PerformanceClass.CPU,
+        PerformanceClass.MEMORY,
+        PerformanceClass.NETWORK,
+      ],
+    });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('serves the classes covered by a monitor from its breakdown', async () => {
+    const monitoringId = await startMonitoring(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY, PerformanceClass.NETWORK],
+      1000
+    );
+    // No listener is added: the cache watches monitors from their start
+    simulator.tick(monitoringId);
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+
+    const result = await getPerformanceLevel(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY],
+      { maxAgeMs: 60000 }
+    );
+    expect(query).not.toHaveBeenCalled();
+    expect(result.level).toBe(PerformanceLevel.HIGH);
+    expect(result.supportedClasses).toEqual([
+      PerformanceClass.CPU,
+      PerformanceClass.MEMORY,
+    ]);
+    expect(Object.keys(result.breakdown).sort()).toEqual(
+      [PerformanceClass.CPU, PerformanceClass.MEMORY].sort()
+    );
+    expect(result.monitoringId).toBeUndefined();
+  });
+
+  it('queries the classes a monitor does not cover', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    simulator.tick(monitoringId);
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+
+    await getPerformanceLevel([PerformanceClass.CPU, PerformanceClass.MEMORY], {
+      maxAgeMs: 60000,
+    });
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives every caller of a shared query its own result', async () => {
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+    const first = getPerformanceLevel([PerformanceClass.CPU]);
+    const second = getPerformanceLevel([PerformanceClass.CPU]);
+    const [firstResult, secondResult] = await Promise.all([first, second]);
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(secondResult).toEqual(firstResult);
+    expect(secondResult).not.toBe(firstResult);
+
+    firstResult.supportedClasses.push(PerformanceClass.MEMORY);
+    const cached = await getPerformanceLevel([PerformanceClass.CPU], {
+      maxAgeMs: 60000,
+    });
+    expect(cached.supportedClasses).toEqual([PerformanceClass.CPU]);
+  });
+
+  it('gives the first caller of a shared query its own result too', async () => {
+    const first = getPerformanceLevel([PerformanceClass.CPU]);
+    // Runs before the second caller joins the query
+    first.then((result) =>
+      result.supportedClasses.push(PerformanceClass.MEMORY)
+    );
+    const second = await getPerformanceLevel([PerformanceClass.CPU]);
+    await first;
+
+    expect(second.supportedClasses).toEqual([PerformanceClass.CPU]);
+  });
+
+  it('ages results from when they were measured', async () => {
+    const sample = simulator.getPerformanceLevel;
+    // Results measured two minutes before they reach JS
+    const query = jest
+      .spyOn(simulator, 'getPerformanceLevel')
+      .mockImplementation((performanceClasses) =>
+        sample(performanceClasses).then((result) => ({
+          ...(result as PerformanceResult),
+          timestamp: (result as PerformanceResult).timestamp - 120000,
+        }))
+      );
+
+    await getPerformanceLevel([PerformanceClass.CPU]);
+    await getPerformanceLevel([PerformanceClass.CPU], { maxAgeMs: 60000 });
+    expect(query).toHaveBeenCalledTimes(2);
+    await getPerformanceLevel([PerformanceClass.CPU], { maxAgeMs: 180000 });
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the results rated under the previous configuration', async () => {
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+    await getPerformanceLevel([PerformanceClass.CPU]);
+    const inFlight = getPerformanceLevel([PerformanceClass.MEMORY]);
+
+    await initialize();
+    await getPerformanceLevel([PerformanceClass.MEMORY]);
+    await inFlight;
+    expect(query).toHaveBeenCalledTimes(3);
+
+    await getPerformanceLevel([PerformanceClass.CPU], { maxAgeMs: 60000 });
+    expect(query).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  addPerformanceListener,
+  clearQueryCache,
+  createCallbackSink,
+  createSimulatorBackend,
+  createTelemetryReporter,
+  disableForProduction,
+  getPerformanceLevel,
+  isDroidDexError,
+  isRecording,
+  replayRecording,
+  setBackend,
+  startMonitoring,
+  startRecording,
+  stopAllMonitoring,
+  stopRecording,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type {
+  PerformanceRecording,
+  ReplayOptions,
+  SimulatorBackend,
+} from '../index';
+
+describe('replayRecording', () => {
+  let simulator: SimulatorBackend;
+  let recording: PerformanceRecording;
+  let recordedMonitoringId: string;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      levels: [PerformanceLevel.HIGH, PerformanceLevel.LOW],
+    });
+    setBackend(simulator);
+
+    startRecording();
+    recordedMonitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    simulator.tick(recordedMonitoringId);
+    jest.advanceTimersByTime(500);
+    simulator.tick(recordedMonitoringId);
+    recording = (await stopRecording()) as PerformanceRecording;
+    await stopAllMonitoring();
+  });
+
+  afterEach(async () => {
+    disableForProduction(false);
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('requires the monitoring ID to replay under', () => {
+    let error: unknown;
+    try {
+      replayRecording(recording, {} as ReplayOptions);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(isDroidDexError(error, 'INVALID_ARGUMENT')).toBe(true);
+  });
+
+  it('emits the events to the listeners of the target monitoring ID', async () => {
+    const listener = jest.fn();
+    addPerformanceListener('replay', listener);
+
+    const replay = replayRecording(recording, { monitoringId: 'replay' });
+    jest.runAllTimers();
+    await expect(replay.finished).resolves.toBe(true);
+
+    expect(recording.events.length).toBeGreaterThan(1);
+    expect(listener.mock.calls.map(([result]) => result.level)).toEqual(
+      recording.events.map((event) => event.result.level)
+    );
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      monitoringId: 'replay',
+      replayed: true,
+    });
+  });
+
+  it('replays only the events of the selected recorded monitor', async () => {
+    const listener = jest.fn();
+    addPerformanceListener('replay', listener);
+
+    const replay = replayRecording(recording, {
+      monitoringId: 'replay',
+      recordedMonitoringId: 'another-monitor',
+    });
+    jest.runAllTimers();
+    await replay.finished;
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reaches the listeners while disabled', async () => {
+    disableForProduction(true);
+    const listener = jest.fn();
+    addPerformanceListener('replay', listener);
+
+    const replay = replayRecording(recording, { monitoringId: 'replay' });
+    jest.runAllTimers();
+    await replay.finished;
+    expect(listener).toHaveBeenCalledTimes(recording.events.length);
+  });
+
+  it('is ignored by recordings, telemetry and the query cache', async () => {
+    const send = jest.fn();
+    const reporter = createTelemetryReporter({
+      sinks: [createCallbackSink(send)],
+    });
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+    // Forget the results of the recorded monitor
+    clearQueryCache();
+    startRecording();
+
+    const replay = replayRecording(recording, { monitoringId: 'replay' });
+    jest.runAllTimers();
+    await replay.finished;
+
+    const replayedRecording = await stopRecording();
+    expect(replayedRecording?.events).toEqual([]);
+    expect(reporter.getQueueSizes()).toEqual({ callback: 0 });
+    await getPerformanceLevel([PerformanceClass.CPU], { maxAgeMs: 60000 });
+    expect(query).toHaveBeenCalledTimes(1);
+
+    await reporter.stop();
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('startRecording', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend();
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopRecording();
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('rejects a maxEvents that is not an integer >= 1', () => {
+    [0, -5, NaN, 2.5].forEach((maxEvents) => {
+      let error: unknown;
+      try {
+        startRecording({ maxEvents });
+      } catch (thrown) {
+        error = thrown;
+      }
+      expect(isDroidDexError(error, 'INVALID_ARGUMENT')).toBe(true);
+      expect(error).toMatchObject({ path: 'options.maxEvents' });
+    });
+    expect(isRecording()).toBe(false);
+  });
+
+  it('keeps the last maxEvents events', async () => {
+    startRecording({ maxEvents: 2 });
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    [
+      PerformanceLevel.HIGH,
+      PerformanceLevel.AVERAGE,
+      PerformanceLevel.LOW,
+    ].forEach((level) => {
+      simulator.setLevel(level);
+      simulator.tick(monitoringId);
+    });
+
+    const recording = await stopRecording();
+    expect(recording?.events.map(({ result }) => result.level)).toEqual([
+      PerformanceLevel.AVERAGE,
+      PerformanceLevel.LOW,
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  addErrorListener,
+  addLifecycleListener,
+  addPerformanceListener,
+  createSimulatorBackend,
+  listMonitors,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  stopMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { DroidDexSubscription, SimulatorBackend } from '../index';
+import * as events from '../events';
+
+type Subscribe = (...args: any[]) => DroidDexSubscription;
+
+/**
+ * Count the active event subscriptions, to check that every registration
+ * releases what it subscribed
+ */
+function countSubscriptions(activeSubscriptions: Map<string, number>): void {
+  (
+    [
+      'subscribeToPerformanceEvents',
+      'subscribeToErrorEvents',
+      'subscribeToLifecycleEvents',
+    ] as const
+  ).forEach((name) => {
+    const subscribe = events[name] as Subscribe;
+    jest.spyOn(events, name).mockImplementation((...args: any[]) => {
+      activeSubscriptions.set(name, (activeSubscriptions.get(name) || 0) + 1);
+      const subscription = subscribe(...args);
+      let removed = false;
+      return {
+        remove: () => {
+          if (!removed) {
+            removed = true;
+            activeSubscriptions.set(
+              name,
+              (activeSubscriptions.get(name) || 0) - 1
+            );
+          }
+          subscription.remove();
+        },
+      };
+    });
+  });
+}
+
+function countActive(activeSubscriptions: Map<string, number>): number {
+  let total = 0;
+  activeSubscriptions.forEach((count) => {
+    total += count;
+  });
+  return total;
+}
+
+describe('listener registry', () => {
+  let simulator: SimulatorBackend;
+  let activeSubscriptions: Map<string, number>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({ levels: [PerformanceLevel.HIGH] });
+    setBackend(simulator);
+    activeSubscriptions = new Map();
+    countSubscriptions(activeSubscriptions);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('releases the shared subscription once every listener is removed', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const first = jest.fn();
+    const second = jest.fn();
+    const baseline = countActive(activeSubscriptions);
+
+    const firstSubscription = addPerformanceListener(monitoringId, first);
+    const secondSubscription = addPerformanceListener(monitoringId, second);
+    expect(countActive(activeSubscriptions)).toBe(baseline + 1);
+
+    simulator.tick(monitoringId);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    firstSubscription.remove();
+    simulator.tick(monitoringId);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(countActive(activeSubscriptions)).toBe(baseline + 1);
+
+    secondSubscription.remove();
+    simulator.tick(monitoringId);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(countActive(activeSubscriptions)).toBe(baseline);
+  });
+
+  it('ignores removing the same listener twice', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const removed = jest.fn();
+    const kept = jest.fn();
+    const baseline = countActive(activeSubscriptions);
+
+    const removedSubscription = addPerformanceListener(monitoringId, removed);
+    removedSubscription.remove();
+    addPerformanceListener(monitoringId, kept);
+    removedSubscription.remove();
+
+    simulator.tick(monitoringId);
+    expect(removed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledTimes(1);
+    expect(countActive(activeSubscriptions)).toBe(baseline + 1);
+  });
+
+  it('keeps error and performance listeners of a monitor independent', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const onResult = jest.fn();
+    const onError = jest.fn();
+    const baseline = countActive(activeSubscriptions);
+
+    const resultSubscription = addPerformanceListener(monitoringId, onResult);
+    const errorSubscription = addErrorListener(monitoringId, onError);
+    resultSubscription.remove();
+
+    simulator.emitError(monitoringId, 'sampling failed');
+    simulator.tick(monitoringId);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onResult).not.toHaveBeenCalled();
+
+    errorSubscription.remove();
+    errorSubscription.remove();
+    expect(countActive(activeSubscriptions)).toBe(baseline);
+  });
+
+  it('releases lifecycle listeners like the other listeners', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    const baseline = countActive(activeSubscriptions);
+    const onLifecycle = jest.fn();
+
+    const subscription = addLifecycleListener(monitoringId, onLifecycle);
+    subscription.remove();
+    subscription.remove();
+    expect(countActive(activeSubscriptions)).toBe(baseline);
+
+    addLifecycleListener(monitoringId, onLifecycle);
+    simulator.terminate();
+    expect(onLifecycle).toHaveBeenCalledWith(
+      expect.objectContaining({ monitoringId, state: 'terminated' })
+    );
+  });
+
+  it('forgets a monitor and its subscriptions once stopped', async () => {
+    const monitoringId = await startMonitoring([PerformanceClass.CPU], 1000);
+    expect(listMonitors().map((info) => info.monitoringId)).toEqual([
+      monitoringId,
+    ]);
+
+    await expect(stopMonitoring(monitoringId)).resolves.toBe(true);
+    expect(listMonitors()).toEqual([]);
+    expect(simulator.getActiveMonitors()).toEqual([]);
+    expect(countActive(activeSubscriptions)).toBe(0);
+
+    // Stopping again reaches the backend, which no longer knows the monitor
+    await expect(stopMonitoring(monitoringId)).resolves.toBe(false);
+    expect(countActive(activeSubscriptions)).toBe(0);
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  createSimulatorBackend,
+  getPerformanceLevel,
+  setBackend,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult, RenderingMetrics } from '../index';
+import {
+  acquireRenderingSampler,
+  getRenderingLevel,
+  getRenderingMetrics,
+  mergeRenderingResult,
+} from '../rendering';
+import { setScoringConfig } from '../scoring';
+
+const { EXCELLENT, HIGH, AVERAGE, LOW } = PerformanceLevel;
+
+function createMetrics(
+  overrides: Partial<RenderingMetrics> = {}
+): RenderingMetrics {
+  return {
+    fps: 60,
+    droppedFrameRate: 0,
+    eventLoopLag: 0,
+    maxEventLoopLag: 0,
+    ...overrides,
+  };
+}
+
+describe('getRenderingLevel', () => {
+  afterEach(() => {
+    setScoringConfig({});
+  });
+
+  it('rates the worse of frame drops and event loop lag', () => {
+    expect(getRenderingLevel(createMetrics())).toBe(EXCELLENT);
+    expect(getRenderingLevel(createMetrics({ droppedFrameRate: 0.1 }))).toBe(
+      HIGH
+    );
+    expect(
+      getRenderingLevel(
+        createMetrics({ droppedFrameRate: 0.01, eventLoopLag: 80 })
+      )
+    ).toBe(AVERAGE);
+    expect(getRenderingLevel(createMetrics({ eventLoopLag: 250 }))).toBe(LOW);
+  });
+
+  it('treats frames that were not measured as not dropped', () => {
+    expect(
+      getRenderingLevel(createMetrics({ fps: null, droppedFrameRate: null }))
+    ).toBe(EXCELLENT);
+  });
+
+  it('uses the configured RENDERING thresholds', () => {
+    setScoringConfig({
+      thresholds: {
+        [PerformanceClass.RENDERING]: {
+          metric: 'fps',
+          levels: { EXCELLENT: 58, HIGH: 50, AVERAGE: 30 },
+        },
+      },
+    });
+    expect(getRenderingLevel(createMetrics({ fps: 55 }))).toBe(HIGH);
+    expect(getRenderingLevel(createMetrics({ fps: 20 }))).toBe(LOW);
+  });
+});
+
+describe('mergeRenderingResult', () => {
+  const nativeResult: PerformanceResult = {
+    level: HIGH,
+    metrics: {},
+    timestamp: 0,
+    supportedClasses: [PerformanceClass.CPU],
+    unsupportedClasses: [PerformanceClass.RENDERING],
+    breakdown: { [PerformanceClass.CPU]: { level: HIGH, metrics: null } },
+  };
+
+  it('adds the rendering level and metrics to the native result', () => {
+    const metrics = createMetrics({ eventLoopLag: 250 });
+    const result = mergeRenderingResult(nativeResult, metrics, {});
+
+    expect(result.level).toBe(AVERAGE);
+    expect(result.metrics.rendering).toBe(metrics);
+    expect(result.supportedClasses).toEqual([
+      PerformanceClass.CPU,
+      PerformanceClass.RENDERING,
+    ]);
+    expect(result.unsupportedClasses).toEqual([]);
+    expect(result.breakdown[PerformanceClass.RENDERING]).toEqual({
+      level: LOW,
+      metrics,
+    });
+  });
+
+  it('weights the rendering level against the native classes', () => {
+    const result = mergeRenderingResult(
+      nativeResult,
+      createMetrics({ eventLoopLag: 250 }),
+      { [PerformanceClass.CPU]: 3, [PerformanceClass.RENDERING]: 1 }
+    );
+    expect(result.level).toBe(HIGH);
+  });
+});
+
+describe('rendering sampler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // A frame every 20ms (50 fps) on the fake clock
+    jest
+      .spyOn(globalThis, 'requestAnimationFrame')
+      .mockImplementation(
+        (callback: (time: number) => void) =>
+          setTimeout(() => callback(Date.now()), 20) as unknown as number
+      );
+    jest
+      .spyOn(globalThis, 'cancelAnimationFrame')
+      .mockImplementation((handle: number) =>
+        clearTimeout(handle as unknown as ReturnType<typeof setTimeout>)
+      );
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('measures frames and event loop lag while acquired', () => {
+    const release = acquireRenderingSampler();
+    jest.advanceTimersByTime(500);
+    const metrics = getRenderingMetrics();
+    expect(metrics.fps).toBe(50);
+    expect(metrics).toMatchObject({
+      droppedFrameRate: 0,
+      eventLoopLag: 0,
+      maxEventLoopLag: 0,
+    });
+
+    release();
+    release();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('answers RENDERING queries in JS alongside the native classes', async () => {
+    const simulator = createSimulatorBackend({ levels: [HIGH] });
+    setBackend(simulator);
+    const query = jest.spyOn(simulator, 'getPerformanceLevel');
+
+    const pending = getPerformanceLevel([
+      PerformanceClass.CPU,
+      PerformanceClass.RENDERING,
+    ]);
+    jest.advanceTimersByTime(1000);
+    const result = await pending;
+
+    expect(query).toHaveBeenCalledWith([PerformanceClass.CPU]);
+    expect(result.supportedClasses).toEqual([
+      PerformanceClass.CPU,
+      PerformanceClass.RENDERING,
+    ]);
+    expect(result.breakdown[PerformanceClass.RENDERING]?.level).toBe(EXCELLENT);
+    expect(result.metrics.rendering).toBeDefined();
+  });
+});
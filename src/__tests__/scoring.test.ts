@@ -0,0 +1,124 @@
+import {
+  createSimulatorBackend,
+  initialize,
+  setBackend,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import { combineLevels } from '../levels';
+import { getScoringStrategy, rateWithThresholds } from '../scoring';
+
+const { EXCELLENT, HIGH, AVERAGE, LOW } = PerformanceLevel;
+
+describe('combineLevels', () => {
+  const levels = [
+    { level: EXCELLENT, weight: 1 },
+    { level: HIGH, weight: 1 },
+    { level: LOW, weight: 1 },
+  ];
+
+  it('rounds the weighted mean to the nearest level by default', () => {
+    expect(combineLevels(levels)).toBe(HIGH);
+    expect(
+      combineLevels([
+        { level: EXCELLENT, weight: 1 },
+        { level: LOW, weight: 3 },
+      ])
+    ).toBe(AVERAGE);
+  });
+
+  it('keeps the worst or best level with those strategies', () => {
+    expect(combineLevels(levels, 'worst')).toBe(LOW);
+    expect(combineLevels(levels, 'best')).toBe(EXCELLENT);
+  });
+
+  it('ignores zero weights unless every weight is zero', () => {
+    expect(
+      combineLevels(
+        [
+          { level: LOW, weight: 0 },
+          { level: HIGH, weight: 1 },
+        ],
+        'worst'
+      )
+    ).toBe(HIGH);
+    expect(
+      combineLevels([
+        { level: HIGH, weight: 0 },
+        { level: AVERAGE, weight: 0 },
+      ])
+    ).toBe(AVERAGE);
+  });
+});
+
+describe('scoring config', () => {
+  beforeEach(() => {
+    setBackend(createSimulatorBackend());
+  });
+
+  afterEach(async () => {
+    await initialize();
+    setBackend(null);
+  });
+
+  it('rates metrics with the configured thresholds', async () => {
+    await initialize({
+      scoring: 'worst',
+      thresholds: {
+        [PerformanceClass.BATTERY]: {
+          metric: 'percentageRemaining',
+          levels: { EXCELLENT: 80, HIGH: 50, AVERAGE: 20 },
+        },
+        [PerformanceClass.THERMAL]: {
+          metric: 'thermalHeadroom',
+          levels: { EXCELLENT: 0.2, HIGH: 0.5 },
+          lowerIsBetter: true,
+        },
+      },
+    });
+    expect(getScoringStrategy()).toBe('worst');
+
+    const battery = (percentageRemaining: number) =>
+      rateWithThresholds(PerformanceClass.BATTERY, {
+        battery: { percentageRemaining, isCharging: false },
+      });
+    expect(battery(90)).toBe(EXCELLENT);
+    expect(battery(50)).toBe(HIGH);
+    expect(battery(10)).toBe(LOW);
+
+    const thermal = (thermalHeadroom: number) =>
+      rateWithThresholds(PerformanceClass.THERMAL, {
+        thermal: { thermalStatus: 'NONE', thermalHeadroom },
+      });
+    expect(thermal(0.1)).toBe(EXCELLENT);
+    expect(thermal(0.4)).toBe(HIGH);
+    expect(thermal(0.9)).toBe(LOW);
+  });
+
+  it('leaves classes without thresholds or metric to the built-in rating', async () => {
+    await initialize({
+      thresholds: {
+        [PerformanceClass.BATTERY]: {
+          metric: 'percentageRemaining',
+          levels: { EXCELLENT: 80 },
+        },
+      },
+    });
+    expect(
+      rateWithThresholds(PerformanceClass.CPU, {
+        cpu: { totalRam: 1, coreCount: 1, cpuFrequency: null },
+      })
+    ).toBeNull();
+    expect(
+      rateWithThresholds(PerformanceClass.BATTERY, {
+        battery: { percentageRemaining: null, isCharging: true },
+      })
+    ).toBeNull();
+  });
+
+  it('resets to the defaults on the next initialize', async () => {
+    await initialize({ scoring: 'best' });
+    await initialize();
+    expect(getScoringStrategy()).toBe('weighted-mean');
+  });
+});
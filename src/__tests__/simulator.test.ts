@@ -0,0 +1,83 @@
+import {
+  addPerformanceListener,
+  createSimulatorBackend,
+  getPerformanceLevel,
+  setBackend,
+  startMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult } from '../index';
+
+const { EXCELLENT, LOW } = PerformanceLevel;
+
+const recordedResult: PerformanceResult = {
+  level: EXCELLENT,
+  metrics: {
+    cpu: { totalRam: 8e9, coreCount: 8, cpuFrequency: 2400 },
+    network: {
+      bandwidthStrength: 'POOR',
+      downloadSpeed: 100,
+      signalStrength: -110,
+    },
+  },
+  timestamp: 1000,
+  supportedClasses: [PerformanceClass.CPU, PerformanceClass.NETWORK],
+  unsupportedClasses: [],
+  breakdown: {
+    [PerformanceClass.CPU]: { level: EXCELLENT, metrics: null },
+    [PerformanceClass.NETWORK]: { level: LOW, metrics: null },
+  },
+  monitoringId: 'recorded-monitor',
+  replayed: true,
+};
+
+describe('simulator trace', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setBackend(createSimulatorBackend({ trace: [recordedResult] }));
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('narrows the recorded results to the requested classes', async () => {
+    const result = await getPerformanceLevel([PerformanceClass.CPU]);
+    expect(result.level).toBe(EXCELLENT);
+    expect(result.supportedClasses).toEqual([PerformanceClass.CPU]);
+    expect(Object.keys(result.breakdown)).toEqual([PerformanceClass.CPU]);
+    expect(Object.keys(result.metrics)).toEqual(['cpu']);
+    expect(result.monitoringId).toBeUndefined();
+    expect(result.replayed).toBeUndefined();
+  });
+
+  it('reports the classes missing from the trace as unsupported', async () => {
+    const result = await getPerformanceLevel([
+      PerformanceClass.NETWORK,
+      PerformanceClass.BATTERY,
+    ]);
+    expect(result.level).toBe(LOW);
+    expect(result.supportedClasses).toEqual([PerformanceClass.NETWORK]);
+    expect(result.unsupportedClasses).toEqual([PerformanceClass.BATTERY]);
+  });
+
+  it('emits trace results under the monitoring ID of the monitor', async () => {
+    const monitoringId = await startMonitoring(
+      [PerformanceClass.CPU, PerformanceClass.NETWORK],
+      1000
+    );
+    const listener = jest.fn();
+    addPerformanceListener(monitoringId, listener);
+    jest.advanceTimersByTime(0);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const [result] = listener.mock.calls[0];
+    expect(result.level).toBe(EXCELLENT);
+    expect(result.monitoringId).toBe(monitoringId);
+    expect(result.replayed).toBeUndefined();
+  });
+});
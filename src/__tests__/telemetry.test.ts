@@ -0,0 +1,69 @@
+import {
+  createCallbackSink,
+  createSimulatorBackend,
+  createTelemetryReporter,
+  getPerformanceLevel,
+  setBackend,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { PerformanceResult, TelemetryBatch } from '../index';
+
+describe('createTelemetryReporter', () => {
+  let result: PerformanceResult;
+
+  beforeEach(async () => {
+    setBackend(createSimulatorBackend({ levels: [PerformanceLevel.HIGH] }));
+    result = await getPerformanceLevel(PerformanceClass.CPU);
+  });
+
+  afterEach(() => {
+    setBackend(null);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps delivering when onError throws', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const delivered: TelemetryBatch[] = [];
+    let failures = 1;
+    const reporter = createTelemetryReporter({
+      sinks: [
+        createCallbackSink((batch) => {
+          if (failures-- > 0) {
+            throw new Error('offline');
+          }
+          delivered.push(batch);
+        }),
+      ],
+      monitoringIds: [],
+      onError: () => {
+        throw new Error('broken handler');
+      },
+    });
+
+    reporter.record(result);
+    await expect(reporter.flush()).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(reporter.getQueueSizes()).toEqual({ callback: 1 });
+
+    await expect(reporter.flush()).resolves.toBeUndefined();
+    expect(delivered).toHaveLength(1);
+    expect(reporter.getQueueSizes()).toEqual({ callback: 0 });
+    await reporter.stop();
+  });
+
+  it.each([
+    ['flushIntervalMs', -1],
+    ['retryDelayMs', 0],
+    ['maxRetryDelayMs', NaN],
+    ['maxAttempts', 0],
+    ['batchSize', NaN],
+  ])('rejects an invalid %s', (option, value) => {
+    expect(() =>
+      createTelemetryReporter({
+        sinks: [createCallbackSink(() => {})],
+        [option]: value,
+      })
+    ).toThrow(`options.${option}`);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  addThresholdListener,
+  createSimulatorBackend,
+  getMonitor,
+  isDroidDexError,
+  listMonitors,
+  setBackend,
+  startMonitoring,
+  startThresholdMonitoring,
+  stopAllMonitoring,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { SimulatorBackend } from '../index';
+
+describe('startThresholdMonitoring', () => {
+  let simulator: SimulatorBackend;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    simulator = createSimulatorBackend({
+      levels: [PerformanceLevel.HIGH],
+      supportedClasses: [PerformanceClass.CPU, PerformanceClass.MEMORY],
+    });
+    setBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+    jest.useRealTimers();
+  });
+
+  it('skips the classes unsupported on the device', async () => {
+    const monitoringId = await startThresholdMonitoring([
+      { performanceClass: PerformanceClass.CPU, level: PerformanceLevel.LOW },
+      {
+        performanceClass: PerformanceClass.THERMAL,
+        level: PerformanceLevel.LOW,
+      },
+    ]);
+    expect(getMonitor(monitoringId).performanceClasses).toEqual([
+      PerformanceClass.CPU,
+    ]);
+    expect(simulator.getActiveMonitors()).toHaveLength(1);
+
+    const listener = jest.fn();
+    addThresholdListener(monitoringId, listener);
+    simulator.setLevel(PerformanceLevel.LOW);
+    simulator.tick();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].triggers).toEqual([
+      { performanceClass: PerformanceClass.CPU, level: PerformanceLevel.LOW },
+    ]);
+  });
+
+  it('rejects when none of the classes are supported', async () => {
+    const error = await startThresholdMonitoring([
+      {
+        performanceClass: PerformanceClass.THERMAL,
+        level: PerformanceLevel.LOW,
+      },
+      {
+        performanceClass: PerformanceClass.BATTERY,
+        metric: 'percentageRemaining',
+        below: 15,
+      },
+    ]).catch((reason) => reason);
+
+    expect(isDroidDexError(error, 'NO_SUPPORTED_CLASSES')).toBe(true);
+    expect(listMonitors()).toEqual([]);
+    expect(simulator.getActiveMonitors()).toEqual([]);
+  });
+});
+
+describe('startMonitoring', () => {
+  afterEach(async () => {
+    await stopAllMonitoring();
+    setBackend(null);
+  });
+
+  it('rejects classes unsupported on the device', async () => {
+    setBackend(
+      createSimulatorBackend({ supportedClasses: [PerformanceClass.CPU] })
+    );
+    const error = await startMonitoring([PerformanceClass.THERMAL]).catch(
+      (reason) => reason
+    );
+    expect(isDroidDexError(error, 'NO_SUPPORTED_CLASSES')).toBe(true);
+    expect(listMonitors()).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { isDroidDexError, PerformanceClass, PerformanceLevel } from '../index';
+import {
+  validateInitializeResult,
+  validateLifecycleEvent,
+  validatePerformanceResult,
+} from '../validation';
+
+function createPayload(overrides: Record<string, unknown> = {}) {
+  return {
+    level: PerformanceLevel.HIGH,
+    timestamp: 1000,
+    supportedClasses: [PerformanceClass.CPU],
+    unsupportedClasses: [],
+    metrics: {
+      cpu: { totalRam: 8192, coreCount: 8, cpuFrequency: null },
+    },
+    ...overrides,
+  };
+}
+
+function getValidationError(validate: () => unknown) {
+  try {
+    validate();
+  } catch (error) {
+    return error as { code: string; path: string; message: string };
+  }
+  throw new Error('Expected the payload to be rejected');
+}
+
+describe('validatePerformanceResult', () => {
+  it('keeps the expected fields of a valid payload', () => {
+    const result = validatePerformanceResult({
+      ...createPayload(),
+      extra: 'ignored',
+      metrics: {
+        cpu: { totalRam: 8192, coreCount: 8, cpuFrequency: 2.4, vendor: 'x' },
+      },
+    });
+    expect(result).toEqual({
+      level: PerformanceLevel.HIGH,
+      timestamp: 1000,
+      supportedClasses: [PerformanceClass.CPU],
+      unsupportedClasses: [],
+      metrics: { cpu: { totalRam: 8192, coreCount: 8, cpuFrequency: 2.4 } },
+      breakdown: {
+        [PerformanceClass.CPU]: {
+          level: PerformanceLevel.HIGH,
+          metrics: { totalRam: 8192, coreCount: 8, cpuFrequency: 2.4 },
+        },
+      },
+    });
+  });
+
+  it('reports the path of an invalid field', () => {
+    const error = getValidationError(() =>
+      validatePerformanceResult(
+        createPayload({
+          metrics: { cpu: { totalRam: '8GB', coreCount: 8, cpuFrequency: 1 } },
+        }),
+        { monitoringId: 'monitor-1' }
+      )
+    );
+    expect(isDroidDexError(error, 'INVALID_PAYLOAD')).toBe(true);
+    expect(error.path).toBe('metrics.cpu.totalRam');
+    expect(error).toMatchObject({ monitoringId: 'monitor-1' });
+  });
+
+  it.each([NaN, Infinity, -Infinity])('rejects %p numbers', (value) => {
+    const error = getValidationError(() =>
+      validatePerformanceResult(
+        createPayload({
+          metrics: {
+            cpu: { totalRam: 8192, coreCount: 8, cpuFrequency: value },
+          },
+        })
+      )
+    );
+    expect(error.path).toBe('metrics.cpu.cpuFrequency');
+    expect(error.message).toContain('a finite number');
+  });
+
+  it('rejects unknown levels and classes', () => {
+    expect(
+      getValidationError(() =>
+        validatePerformanceResult(createPayload({ level: 'FAST' }))
+      ).path
+    ).toBe('level');
+    expect(
+      getValidationError(() =>
+        validatePerformanceResult(
+          createPayload({ unsupportedClasses: ['GPU'] })
+        )
+      ).path
+    ).toBe('unsupportedClasses[0]');
+    expect(
+      getValidationError(() =>
+        validatePerformanceResult(
+          createPayload({ breakdown: { GPU: { level: PerformanceLevel.LOW } } })
+        )
+      ).path
+    ).toBe('breakdown.GPU');
+  });
+
+  it('completes the breakdown with the metrics of each class', () => {
+    const result = validatePerformanceResult(
+      createPayload({
+        supportedClasses: [PerformanceClass.CPU, PerformanceClass.BATTERY],
+        breakdown: {
+          [PerformanceClass.CPU]: { level: PerformanceLevel.HIGH, weight: 2 },
+          [PerformanceClass.BATTERY]: { level: PerformanceLevel.LOW },
+        },
+      })
+    );
+    expect(result.breakdown[PerformanceClass.CPU]).toEqual({
+      level: PerformanceLevel.HIGH,
+      metrics: { totalRam: 8192, coreCount: 8, cpuFrequency: null },
+      weight: 2,
+    });
+    expect(result.breakdown[PerformanceClass.BATTERY]).toEqual({
+      level: PerformanceLevel.LOW,
+      metrics: null,
+    });
+  });
+});
+
+describe('validateInitializeResult', () => {
+  it('defaults the missing permission lists', () => {
+    expect(
+      validateInitializeResult({
+        success: true,
+        fullFunctionality: false,
+        apiLevel: 33,
+        networkMonitoringSupported: true,
+        batteryStatsSupported: false,
+      })
+    ).toEqual({
+      success: true,
+      fullFunctionality: false,
+      apiLevel: 33,
+      networkMonitoringSupported: true,
+      batteryStatsSupported: false,
+      missingPermissions: [],
+      missingOptionalPermissions: [],
+    });
+  });
+
+  it('rejects payloads that are not objects', () => {
+    expect(getValidationError(() => validateInitializeResult(null)).path).toBe(
+      'result'
+    );
+  });
+});
+
+describe('validateLifecycleEvent', () => {
+  it('rejects unknown states with the monitoring ID of the event', () => {
+    const error = getValidationError(() =>
+      validateLifecycleEvent({
+        monitoringId: 'monitor-1',
+        state: 'sleeping',
+        timestamp: 1000,
+      })
+    );
+    expect(error.path).toBe('state');
+    expect(error).toMatchObject({ monitoringId: 'monitor-1' });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  createSimulatorBackend,
+  deleteWeightPreset,
+  getWeightedPerformanceLevel,
+  getWeightPreset,
+  isDroidDexError,
+  listWeightPresets,
+  saveWeightPreset,
+  setBackend,
+  PerformanceClass,
+  PerformanceLevel,
+} from '../index';
+import type { WeightedPerformanceClass } from '../index';
+import { normalizeWeightedClasses } from '../weights';
+
+const { CPU, MEMORY, NETWORK } = PerformanceClass;
+
+function getError(weightedClasses: WeightedPerformanceClass[]): unknown {
+  try {
+    normalizeWeightedClasses(weightedClasses);
+  } catch (error) {
+    return error;
+  }
+  return null;
+}
+
+describe('normalizeWeightedClasses', () => {
+  it('merges duplicate classes and scales the weights to sum to 1', () => {
+    expect(
+      normalizeWeightedClasses([
+        { performanceClass: CPU, weight: 2 },
+        { performanceClass: MEMORY, weight: 1 },
+        { performanceClass: CPU, weight: 1 },
+        { performanceClass: NETWORK, weight: 0 },
+      ])
+    ).toEqual([
+      { performanceClass: CPU, weight: 0.75 },
+      { performanceClass: MEMORY, weight: 0.25 },
+      { performanceClass: NETWORK, weight: 0 },
+    ]);
+  });
+
+  it('rejects empty input, unknown classes and invalid weights', () => {
+    const empty = getError([]);
+    expect(isDroidDexError(empty, 'INVALID_ARGUMENT')).toBe(true);
+    expect(empty).toMatchObject({ path: 'weightedClasses' });
+
+    const unknown = getError([
+      { performanceClass: 'GPU' as PerformanceClass, weight: 1 },
+    ]);
+    expect(unknown).toMatchObject({
+      path: 'weightedClasses[0].performanceClass',
+    });
+
+    [-1, NaN, Infinity].forEach((weight) => {
+      expect(
+        getError([
+          { performanceClass: CPU, weight: 1 },
+          { performanceClass: MEMORY, weight },
+        ])
+      ).toMatchObject({ path: 'weightedClasses[1].weight' });
+    });
+
+    const allZero = getError([
+      { performanceClass: CPU, weight: 0 },
+      { performanceClass: MEMORY, weight: 0 },
+    ]);
+    expect(allZero).toMatchObject({ path: 'weightedClasses' });
+  });
+});
+
+describe('weight presets', () => {
+  afterEach(() => {
+    listWeightPresets().forEach(deleteWeightPreset);
+    setBackend(null);
+  });
+
+  it('saves, lists and deletes normalized presets', () => {
+    const saved = saveWeightPreset('gaming', [
+      { performanceClass: CPU, weight: 3 },
+      { performanceClass: MEMORY, weight: 1 },
+    ]);
+    expect(saved).toEqual([
+      { performanceClass: CPU, weight: 0.75 },
+      { performanceClass: MEMORY, weight: 0.25 },
+    ]);
+    expect(getWeightPreset('gaming')).toEqual(saved);
+    expect(listWeightPresets()).toEqual(['gaming']);
+
+    // Presets are copied in and out
+    saved[0].weight = 1;
+    expect(getWeightPreset('gaming')?.[0].weight).toBe(0.75);
+
+    expect(deleteWeightPreset('gaming')).toBe(true);
+    expect(deleteWeightPreset('gaming')).toBe(false);
+    expect(getWeightPreset('gaming')).toBeNull();
+  });
+
+  it('keeps the previous preset when the weights are invalid', () => {
+    saveWeightPreset('streaming', [{ performanceClass: NETWORK, weight: 1 }]);
+    expect(() =>
+      saveWeightPreset('streaming', [{ performanceClass: NETWORK, weight: 0 }])
+    ).toThrow();
+    expect(getWeightPreset('streaming')).toEqual([
+      { performanceClass: NETWORK, weight: 1 },
+    ]);
+  });
+
+  it('stands in for weighted classes in queries', async () => {
+    const simulator = createSimulatorBackend({
+      levels: [PerformanceLevel.HIGH],
+    });
+    setBackend(simulator);
+    const query = jest.spyOn(simulator, 'getWeightedPerformanceLevel');
+    saveWeightPreset('gaming', [
+      { performanceClass: CPU, weight: 3 },
+      { performanceClass: MEMORY, weight: 1 },
+    ]);
+
+    const result = await getWeightedPerformanceLevel('gaming');
+    expect(query).toHaveBeenCalledWith([
+      { performanceClass: CPU, weight: 0.75 },
+      { performanceClass: MEMORY, weight: 0.25 },
+    ]);
+    expect(result.contributions).toEqual({ [CPU]: 0.75, [MEMORY]: 0.25 });
+
+    const error = await getWeightedPerformanceLevel('unknown').catch(
+      (reason) => reason
+    );
+    expect(isDroidDexError(error, 'INVALID_ARGUMENT')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import type {
+  DroidDexSubscription,
+  PerformanceListener,
+  PerformanceResult,
+} from './types';
+import { subscribeToPerformanceEvents } from './events';
+
+const DEFAULT_MONITORING_INTERVAL_MS = 5000;
+
+let monitoringInterval = DEFAULT_MONITORING_INTERVAL_MS;
+let autoMonitoringId: string | null = null;
+let autoMonitoringSubscription: DroidDexSubscription | null = null;
+let latestResult: PerformanceResult | null = null;
+const snapshotListeners: Set<PerformanceListener> = new Set();
+
+/**
+ * Set the interval used by monitors started without one, from the
+ * `monitoringInterval` config option
+ */
+export function setMonitoringInterval(intervalMs: number | undefined): void {
+  monitoringInterval = intervalMs ?? DEFAULT_MONITORING_INTERVAL_MS;
+}
+
+export function getMonitoringInterval(): number {
+  return monitoringInterval;
+}
+
+/**
+ * Make a monitor the global stream: its results are cached for
+ * getCurrentSnapshot and delivered to subscribe listeners
+ */
+export function attachAutoMonitor(monitoringId: string): void {
+  autoMonitoringSubscription?.remove();
+  autoMonitoringId = monitoringId;
+  autoMonitoringSubscription = subscribeToPerformanceEvents(
+    monitoringId,
+    (result) => {
+      latestResult = result;
+      // Copy first so listeners can remove themselves while being notified
+      Array.from(snapshotListeners).forEach((listener) => listener(result));
+    }
+  );
+}
+
+/**
+ * Detach the global monitor, returning its ID so the caller can stop it. Its
+ * latest result is dropped, so snapshots never outlive the monitor.
+ */
+export function detachAutoMonitor(): string | null {
+  const monitoringId = autoMonitoringId;
+  autoMonitoringSubscription?.remove();
+  autoMonitoringSubscription = null;
+  autoMonitoringId = null;
+  latestResult = null;
+  return monitoringId;
+}
+
+export function getAutoMonitoringId(): string | null {
+  return autoMonitoringId;
+}
+
+/**
+ * Latest result of the global monitor started with
+ * `initialize({ autoMonitoring: true })`, or null until the first one arrives
+ * and once the monitor is stopped
+ */
+export function getCurrentSnapshot(): PerformanceResult | null {
+  return latestResult;
+}
+
+/**
+ * Listen to the results of the global monitor. Listeners stay registered when
+ * the monitor is restarted by another initialize call.
+ */
+export function subscribe(listener: PerformanceListener): DroidDexSubscription {
+  snapshotListeners.add(listener);
+  return {
+    remove: () => {
+      snapshotListeners.delete(listener);
+    },
+  };
+}
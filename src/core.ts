@@ -0,0 +1,1436 @@
+import { Platform } from 'react-native';
+import { PerformanceClass, PerformanceLevel } from './types';
+import type {
+  PerformanceResult,
+  WeightedPerformanceClass,
+  DroidDexConfig,
+  PerformanceListener,
+  ErrorListener,
+  DroidDexErrorCode,
+  DroidDexErrorContext,
+  InitializeResult,
+  PlatformInfo,
+  DroidDexSubscription,
+  LifecycleListener,
+  MemoryPressureListener,
+  MonitorInfo,
+  MonitorLifecycleEvent,
+  MonitorType,
+  MonitorUpdate,
+  MonitoringOptions,
+  MonitoringTrigger,
+  QueryOptions,
+  ThresholdEvent,
+  ThresholdListener,
+  ThresholdMonitoringOptions,
+  WeightedClassesInput,
+} from './types';
+import {
+  DroidDexArgumentError,
+  DroidDexMonitoringError,
+  DroidDexMonitorNotFoundError,
+  isDroidDexError,
+  toDroidDexError,
+} from './errors';
+import type { DroidDexError } from './errors';
+import { getBackend, isBackendAvailable } from './native';
+import {
+  emitLifecycleEvent,
+  emitPerformanceEvent,
+  subscribeToErrorEvents,
+  subscribeToLifecycleEvents,
+  subscribeToMemoryPressureEvents,
+  subscribeToPerformanceEvents,
+} from './events';
+import {
+  measureRendering,
+  mergeRenderingResult,
+  registerRenderingMonitor,
+  unregisterAllRenderingMonitors,
+  unregisterRenderingMonitor,
+} from './rendering';
+import type { ClassWeights } from './rendering';
+import { createTriggerEvaluator } from './thresholds';
+import { setScoringConfig } from './scoring';
+import {
+  queryWithCache,
+  resetQueryCache,
+  setDefaultMaxAge,
+  unwatchMonitorResults,
+  watchMonitorResults,
+} from './queryCache';
+import {
+  addContributions,
+  normalizeWeightedClasses,
+  registerWeightedMonitor,
+  resolveWeightedClasses,
+  unregisterAllWeightedMonitors,
+  unregisterWeightedMonitor,
+} from './weights';
+import {
+  attachAutoMonitor,
+  detachAutoMonitor,
+  getAutoMonitoringId,
+  getMonitoringInterval,
+  setMonitoringInterval,
+} from './autoMonitoring';
+import {
+  clearLifecycleMonitors,
+  registerLifecycleMonitor,
+  unregisterLifecycleMonitor,
+} from './lifecycle';
+import type { MonitorControls } from './lifecycle';
+import {
+  validateInitializeResult,
+  validatePerformanceResult,
+  validatePlatformInfo,
+} from './validation';
+
+/**
+ * Listeners of one event type, grouped by monitoring ID, with the single
+ * backend subscription feeding each group
+ */
+interface ListenerRegistry<T> {
+  listeners: Map<string, Set<(value: T) => void>>;
+  subscriptions: Map<string, DroidDexSubscription>;
+}
+
+const performanceRegistry: ListenerRegistry<PerformanceResult> = {
+  listeners: new Map(),
+  subscriptions: new Map(),
+};
+const errorRegistry: ListenerRegistry<DroidDexError> = {
+  listeners: new Map(),
+  subscriptions: new Map(),
+};
+const thresholdRegistry: ListenerRegistry<ThresholdEvent> = {
+  listeners: new Map(),
+  subscriptions: new Map(),
+};
+const lifecycleRegistry: ListenerRegistry<MonitorLifecycleEvent> = {
+  listeners: new Map(),
+  subscriptions: new Map(),
+};
+let isProductionDisabled = false;
+
+/**
+ * Classes of the global monitor started by `autoMonitoring`. RENDERING is
+ * left out as it keeps a frame sampler running in JS.
+ */
+const AUTO_MONITORING_CLASSES: PerformanceClass[] = [
+  PerformanceClass.CPU,
+  PerformanceClass.MEMORY,
+  PerformanceClass.NETWORK,
+  PerformanceClass.STORAGE,
+  PerformanceClass.BATTERY,
+  PerformanceClass.THERMAL,
+  PerformanceClass.POWER_SAVE,
+];
+let renderingOnlyMonitorCount = 0;
+// Timers of the monitors of RENDERING alone, null while paused
+const renderingOnlyMonitors: Map<
+  string,
+  ReturnType<typeof setInterval> | null
+> = new Map();
+
+/**
+ * Per-class monitors feeding a threshold monitoring session, and the
+ * subscriptions evaluating their results
+ */
+interface ThresholdMonitor {
+  monitoringIds: string[];
+  subscriptions: DroidDexSubscription[];
+}
+
+let thresholdMonitorCount = 0;
+const thresholdMonitors: Map<string, ThresholdMonitor> = new Map();
+
+/**
+ * An active monitor and the controls pausing and resuming it. `userPaused`
+ * is set by pauseMonitor, so that the lifecycle policy doesn't resume it.
+ */
+interface MonitorRecord {
+  info: MonitorInfo;
+  controls: MonitorControls;
+  userPaused: boolean;
+}
+
+// Controls of the fake monitors returned while disabled or unavailable
+const FAKE_MONITOR_CONTROLS: MonitorControls = {
+  pause: () => Promise.resolve(true),
+  resume: () => Promise.resolve(true),
+};
+
+let fakeMonitorCount = 0;
+const monitorRecords: Map<string, MonitorRecord> = new Map();
+let terminationSubscription: DroidDexSubscription | null = null;
+
+function addToRegistry<T>(
+  registry: ListenerRegistry<T>,
+  monitoringId: string,
+  listener: (value: T) => void,
+  subscribe: () => DroidDexSubscription
+): DroidDexSubscription {
+  const listeners = registry.listeners.get(monitoringId) || new Set();
+  listeners.add(listener);
+  registry.listeners.set(monitoringId, listeners);
+
+  // Listeners are still stored when disabled, but no events are emitted
+  if (
+    !isProductionDisabled &&
+    isBackendAvailable() &&
+    !registry.subscriptions.has(monitoringId)
+  ) {
+    registry.subscriptions.set(monitoringId, subscribe());
+  }
+
+  return {
+    remove: () => removeFromRegistry(registry, monitoringId, listener),
+  };
+}
+
+function removeFromRegistry<T>(
+  registry: ListenerRegistry<T>,
+  monitoringId: string,
+  listener?: (value: T) => void
+): void {
+  const listeners = registry.listeners.get(monitoringId);
+  if (listeners && listener) {
+    listeners.delete(listener);
+    if (listeners.size > 0) {
+      return;
+    }
+  }
+
+  registry.listeners.delete(monitoringId);
+  registry.subscriptions.get(monitoringId)?.remove();
+  registry.subscriptions.delete(monitoringId);
+}
+
+function clearRegistry<T>(registry: ListenerRegistry<T>): void {
+  registry.subscriptions.forEach((subscription) => subscription.remove());
+  registry.subscriptions.clear();
+  registry.listeners.clear();
+}
+
+function dispatch<T>(
+  registry: ListenerRegistry<T>,
+  monitoringId: string,
+  value: T
+): void {
+  // Copy first so listeners can remove themselves while being notified
+  const listeners = registry.listeners.get(monitoringId);
+  if (listeners) {
+    Array.from(listeners).forEach((listener) => listener(value));
+  }
+}
+
+/**
+ * Call a native method, converting rejections and synchronous failures
+ * (e.g. a missing native module) into DroidDexErrors
+ */
+function callNative<T>(
+  fallbackCode: DroidDexErrorCode,
+  context: DroidDexErrorContext,
+  invoke: () => Promise<T>
+): Promise<T> {
+  try {
+    return invoke().catch((error) =>
+      Promise.reject(toDroidDexError(error, fallbackCode, context))
+    );
+  } catch (error) {
+    return Promise.reject(toDroidDexError(error, fallbackCode, context));
+  }
+}
+
+/**
+ * Disable DroidDex for production use (useful for error handling)
+ * When disabled, all methods return default/safe values
+ */
+export function disableForProduction(disabled: boolean = true): void {
+  isProductionDisabled = disabled;
+  if (disabled) {
+    console.log('DroidDex: Performance monitoring disabled for production');
+  }
+}
+
+/**
+ * Check if DroidDex is disabled for production
+ */
+export function isDisabledForProduction(): boolean {
+  return isProductionDisabled;
+}
+
+/**
+ * Get default performance result (used when disabled or on iOS)
+ */
+function getDefaultPerformanceResult(
+  requestedClasses?: PerformanceClass[]
+): PerformanceResult {
+  return {
+    level: PerformanceLevel.HIGH,
+    metrics: {},
+    timestamp: Date.now(),
+    supportedClasses: [],
+    unsupportedClasses: requestedClasses || [],
+    breakdown: {},
+  };
+}
+
+function getClassWeights(
+  weightedClasses: WeightedPerformanceClass[]
+): ClassWeights {
+  const weights: ClassWeights = {};
+  weightedClasses.forEach((wc) => {
+    weights[wc.performanceClass] = wc.weight;
+  });
+  return weights;
+}
+
+function getNativeClasses(
+  performanceClasses: PerformanceClass[]
+): PerformanceClass[] {
+  return performanceClasses.filter(
+    (performanceClass) => performanceClass !== PerformanceClass.RENDERING
+  );
+}
+
+/**
+ * Query the native classes with `query`, and add the RENDERING class measured
+ * in JS when it is requested
+ */
+function queryWithRendering(
+  performanceClasses: PerformanceClass[],
+  weights: ClassWeights,
+  query: (nativeClasses: PerformanceClass[]) => Promise<PerformanceResult>
+): Promise<PerformanceResult> {
+  const nativeClasses = getNativeClasses(performanceClasses);
+  if (nativeClasses.length === performanceClasses.length) {
+    return query(nativeClasses);
+  }
+
+  // RENDERING is always supported, so unsupported native classes are only
+  // reported instead of failing the query
+  const nativeResult =
+    nativeClasses.length > 0
+      ? query(nativeClasses).catch((error) =>
+          isDroidDexError(error, 'NO_SUPPORTED_CLASSES')
+            ? getDefaultPerformanceResult(nativeClasses)
+            : Promise.reject(error)
+        )
+      : Promise.resolve(getDefaultPerformanceResult([]));
+
+  return Promise.all([nativeResult, measureRendering()]).then(
+    ([result, metrics]) => mergeRenderingResult(result, metrics, weights)
+  );
+}
+
+/**
+ * (Re)start the timer of a monitor of RENDERING alone
+ */
+function scheduleRenderingOnlyMonitor(
+  monitoringId: string,
+  intervalMs: number
+): void {
+  const timer = renderingOnlyMonitors.get(monitoringId);
+  if (timer) {
+    clearInterval(timer);
+  }
+  renderingOnlyMonitors.set(
+    monitoringId,
+    setInterval(
+      () =>
+        emitPerformanceEvent({
+          ...getDefaultPerformanceResult([]),
+          monitoringId,
+        }),
+      intervalMs
+    )
+  );
+}
+
+/**
+ * Start a monitor of the native classes with `start`, sampling rendering
+ * alongside when the RENDERING class is requested. A monitor of RENDERING
+ * alone runs in JS only.
+ */
+function startMonitoringWithRendering(
+  performanceClasses: PerformanceClass[],
+  weights: ClassWeights,
+  intervalMs: number,
+  start: (nativeClasses: PerformanceClass[]) => Promise<string>
+): Promise<string> {
+  const nativeClasses = getNativeClasses(performanceClasses);
+  if (nativeClasses.length === performanceClasses.length) {
+    return start(nativeClasses);
+  }
+
+  if (nativeClasses.length === 0) {
+    renderingOnlyMonitorCount++;
+    const monitoringId = `rendering-monitoring-${renderingOnlyMonitorCount}`;
+    registerRenderingMonitor(monitoringId, weights);
+    scheduleRenderingOnlyMonitor(monitoringId, intervalMs);
+    return Promise.resolve(monitoringId);
+  }
+
+  return start(nativeClasses).then((monitoringId) => {
+    registerRenderingMonitor(monitoringId, weights);
+    return monitoringId;
+  });
+}
+
+/**
+ * Pause and resume a monitor started by startMonitoringWithRendering. The
+ * rendering sampler is released while paused.
+ */
+function createMonitorControls(
+  monitoringId: string,
+  performanceClasses: PerformanceClass[],
+  weights: ClassWeights
+): MonitorControls {
+  const hasRendering =
+    performanceClasses.indexOf(PerformanceClass.RENDERING) !== -1;
+
+  return {
+    pause: () => {
+      if (hasRendering) {
+        unregisterRenderingMonitor(monitoringId);
+      }
+      const timer = renderingOnlyMonitors.get(monitoringId);
+      if (timer !== undefined) {
+        if (timer) {
+          clearInterval(timer);
+        }
+        renderingOnlyMonitors.set(monitoringId, null);
+        return Promise.resolve(timer !== null);
+      }
+      return callNative('MONITORING_ERROR', { monitoringId }, () =>
+        getBackend().pauseMonitoring(monitoringId)
+      );
+    },
+    resume: (intervalMs) => {
+      if (hasRendering) {
+        registerRenderingMonitor(monitoringId, weights);
+      }
+      if (renderingOnlyMonitors.has(monitoringId)) {
+        scheduleRenderingOnlyMonitor(monitoringId, intervalMs);
+        return Promise.resolve(true);
+      }
+      return callNative('MONITORING_ERROR', { monitoringId }, () =>
+        getBackend().resumeMonitoring(monitoringId, intervalMs)
+      );
+    },
+  };
+}
+
+function createMonitorInfo(
+  monitoringId: string,
+  type: MonitorType,
+  performanceClasses: PerformanceClass[],
+  weights: ClassWeights,
+  intervalMs: number,
+  options: MonitoringOptions
+): MonitorInfo {
+  return {
+    monitoringId,
+    type,
+    performanceClasses: performanceClasses.slice(),
+    weights: type === 'weighted' ? { ...weights } : undefined,
+    intervalMs,
+    options: { ...options },
+    paused: false,
+    startedAt: Date.now(),
+  };
+}
+
+function copyMonitorInfo(info: MonitorInfo): MonitorInfo {
+  return {
+    ...info,
+    performanceClasses: info.performanceClasses.slice(),
+    weights: info.weights && { ...info.weights },
+    options: { ...info.options },
+  };
+}
+
+/**
+ * Pause or resume a monitor with its controls, keeping `info.paused` in sync
+ */
+function setMonitorPaused(
+  record: MonitorRecord,
+  paused: boolean,
+  intervalMs: number = record.info.intervalMs
+): Promise<boolean> {
+  const update = paused
+    ? record.controls.pause()
+    : record.controls.resume(intervalMs);
+  return update.then((applied) => {
+    if (applied) {
+      record.info.paused = paused;
+    }
+    return applied;
+  });
+}
+
+/**
+ * Apply the lifecycle policy of a monitor. It never resumes a monitor paused
+ * with pauseMonitor, and its failures are reported to the error listeners of
+ * the monitor.
+ */
+function registerMonitorLifecycle(record: MonitorRecord): void {
+  const { monitoringId } = record.info;
+  const reportError = (error: DroidDexError): boolean => {
+    dispatch(errorRegistry, monitoringId, error);
+    return false;
+  };
+
+  registerLifecycleMonitor(
+    monitoringId,
+    record.info.intervalMs,
+    record.info.options,
+    {
+      pause: () =>
+        record.info.paused
+          ? Promise.resolve(false)
+          : setMonitorPaused(record, true).catch(reportError),
+      resume: (intervalMs) =>
+        record.userPaused
+          ? Promise.resolve(false)
+          : setMonitorPaused(record, false, intervalMs).catch(reportError),
+    }
+  );
+}
+
+/**
+ * Register a started monitor for introspection, its lifecycle policy and the
+ * query cache
+ */
+function trackMonitor(info: MonitorInfo, controls: MonitorControls): string {
+  const record: MonitorRecord = { info, controls, userPaused: false };
+  monitorRecords.set(info.monitoringId, record);
+  registerMonitorLifecycle(record);
+  watchMonitorResults();
+
+  // Forget monitors stopped by the native side
+  if (!terminationSubscription) {
+    terminationSubscription = subscribeToLifecycleEvents(null, (event) => {
+      if (event.state === 'terminated') {
+        releaseMonitor(event.monitoringId);
+      }
+    });
+  }
+  return info.monitoringId;
+}
+
+/**
+ * Register the fake monitor returned while disabled or unavailable, so that
+ * the management API behaves the same
+ */
+function trackFakeMonitor(
+  prefix: string,
+  type: MonitorType,
+  performanceClasses: PerformanceClass[],
+  weights: ClassWeights,
+  intervalMs: number,
+  options: MonitoringOptions
+): Promise<string> {
+  fakeMonitorCount++;
+  const monitoringId = `${prefix}-${fakeMonitorCount}`;
+  monitorRecords.set(monitoringId, {
+    info: createMonitorInfo(
+      monitoringId,
+      type,
+      performanceClasses,
+      weights,
+      intervalMs,
+      options
+    ),
+    controls: FAKE_MONITOR_CONTROLS,
+    userPaused: false,
+  });
+  return Promise.resolve(monitoringId);
+}
+
+/**
+ * Release the JS side of a monitor: its record, lifecycle policy, rendering
+ * sampler, weights and the global stream when it is the auto monitor
+ */
+function releaseMonitor(monitoringId: string): void {
+  if (monitoringId === getAutoMonitoringId()) {
+    detachAutoMonitor();
+  }
+  monitorRecords.delete(monitoringId);
+  unregisterLifecycleMonitor(monitoringId);
+  unregisterRenderingMonitor(monitoringId);
+  unregisterWeightedMonitor(monitoringId);
+  if (monitorRecords.size === 0) {
+    terminationSubscription?.remove();
+    terminationSubscription = null;
+    unwatchMonitorResults();
+  }
+}
+
+/**
+ * Initialize the DroidDex performance monitoring
+ */
+export function initialize(config?: DroidDexConfig): Promise<InitializeResult> {
+  if (isProductionDisabled) {
+    return Promise.resolve({
+      success: true,
+      fullFunctionality: false,
+      missingPermissions: [],
+      missingOptionalPermissions: [],
+      apiLevel: 0,
+      networkMonitoringSupported: false,
+      batteryStatsSupported: false,
+      disabled: true,
+    });
+  }
+
+  if (!isBackendAvailable()) {
+    console.warn('DroidDex is currently only supported on Android');
+  }
+
+  setScoringConfig(config || {});
+  setMonitoringInterval(config?.monitoringInterval);
+  setDefaultMaxAge(config?.maxAgeMs);
+  resetQueryCache();
+
+  return callNative('INIT_ERROR', {}, () =>
+    getBackend()
+      .initialize(config || {})
+      .then(validateInitializeResult)
+  ).then((result) =>
+    updateAutoMonitoring(config?.autoMonitoring === true).then(() => result)
+  );
+}
+
+/**
+ * Start or restart the global monitor when `autoMonitoring` is enabled, and
+ * stop it otherwise. Classes unsupported on the device are reported in the
+ * `unsupportedClasses` of its results.
+ */
+function updateAutoMonitoring(enabled: boolean): Promise<void> {
+  const previousMonitoringId = detachAutoMonitor();
+  const stopped =
+    previousMonitoringId !== null
+      ? stopMonitoring(previousMonitoringId).then(() => undefined)
+      : Promise.resolve();
+  if (!enabled) {
+    return stopped;
+  }
+  return stopped
+    .then(() => startMonitoring(AUTO_MONITORING_CLASSES))
+    .then(attachAutoMonitor);
+}
+
+/**
+ * Get current performance level for specified parameters. Identical queries
+ * in flight share one native call, and results up to `maxAgeMs` old from
+ * earlier queries or active monitors are reused unless `fresh` is set.
+ */
+export function getPerformanceLevel(
+  ...performanceClasses: PerformanceClass[]
+): Promise<PerformanceResult>;
+export function getPerformanceLevel(
+  performanceClasses: PerformanceClass[],
+  options?: QueryOptions
+): Promise<PerformanceResult>;
+export function getPerformanceLevel(
+  ...args: (PerformanceClass | PerformanceClass[] | QueryOptions | undefined)[]
+): Promise<PerformanceResult> {
+  const performanceClasses = (
+    Array.isArray(args[0]) ? args[0] : args
+  ) as PerformanceClass[];
+  const options = (Array.isArray(args[0]) && args[1]) || {};
+
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return Promise.resolve(getDefaultPerformanceResult(performanceClasses));
+  }
+
+  return queryWithCache(performanceClasses, options as QueryOptions, () =>
+    queryWithRendering(performanceClasses, {}, (nativeClasses) =>
+      callNative(
+        'PERFORMANCE_ERROR',
+        { performanceClasses: nativeClasses },
+        () =>
+          getBackend()
+            .getPerformanceLevel(nativeClasses)
+            .then((payload: unknown) =>
+              validatePerformanceResult(payload, {
+                performanceClasses: nativeClasses,
+              })
+            )
+      )
+    )
+  );
+}
+
+/**
+ * Get weighted performance level for multiple parameters, or for a weight
+ * preset. Weights are validated and normalized, and the result reports the
+ * contribution of each class.
+ */
+export function getWeightedPerformanceLevel(
+  input: WeightedClassesInput
+): Promise<PerformanceResult> {
+  let weightedClasses: WeightedPerformanceClass[];
+  try {
+    weightedClasses = resolveWeightedClasses(input);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const requestedClasses = weightedClasses.map((wc) => wc.performanceClass);
+  const weights = getClassWeights(weightedClasses);
+
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return Promise.resolve(getDefaultPerformanceResult(requestedClasses));
+  }
+
+  return queryWithRendering(requestedClasses, weights, (nativeClasses) => {
+    const params = weightedClasses
+      .filter((wc) => nativeClasses.indexOf(wc.performanceClass) !== -1)
+      .map((wc) => ({
+        performanceClass: wc.performanceClass,
+        weight: wc.weight,
+      }));
+
+    return callNative(
+      'PERFORMANCE_ERROR',
+      { performanceClasses: nativeClasses },
+      () =>
+        getBackend()
+          .getWeightedPerformanceLevel(params)
+          .then((payload: unknown) =>
+            validatePerformanceResult(payload, {
+              performanceClasses: nativeClasses,
+            })
+          )
+    );
+  }).then((result) => addContributions(result, weights));
+}
+
+/**
+ * Start continuous performance monitoring. With `pauseInBackground` or
+ * `backgroundIntervalMs`, sampling follows the app state: lifecycle
+ * listeners are told when the monitor is paused and resumed. Rejects with
+ * NO_SUPPORTED_CLASSES when none of the classes are supported on the device.
+ */
+export function startMonitoring(
+  performanceClasses: PerformanceClass[],
+  intervalMs: number = getMonitoringInterval(),
+  options: MonitoringOptions = {}
+): Promise<string> {
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return trackFakeMonitor(
+      'fake-monitoring',
+      'standard',
+      performanceClasses,
+      {},
+      intervalMs,
+      options
+    );
+  }
+
+  return startMonitoringWithRendering(
+    performanceClasses,
+    {},
+    intervalMs,
+    (nativeClasses) =>
+      callNative(
+        'MONITORING_ERROR',
+        { performanceClasses: nativeClasses },
+        () => getBackend().startMonitoring(nativeClasses, intervalMs)
+      )
+  ).then((monitoringId) =>
+    trackMonitor(
+      createMonitorInfo(
+        monitoringId,
+        'standard',
+        performanceClasses,
+        {},
+        intervalMs,
+        options
+      ),
+      createMonitorControls(monitoringId, performanceClasses, {})
+    )
+  );
+}
+
+/**
+ * Start weighted continuous performance monitoring, with the same lifecycle
+ * options as startMonitoring
+ */
+export function startWeightedMonitoring(
+  input: WeightedClassesInput,
+  intervalMs: number = getMonitoringInterval(),
+  options: MonitoringOptions = {}
+): Promise<string> {
+  let weightedClasses: WeightedPerformanceClass[];
+  try {
+    weightedClasses = resolveWeightedClasses(input);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const performanceClasses = weightedClasses.map((wc) => wc.performanceClass);
+  const weights = getClassWeights(weightedClasses);
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return trackFakeMonitor(
+      'fake-weighted-monitoring',
+      'weighted',
+      performanceClasses,
+      weights,
+      intervalMs,
+      options
+    );
+  }
+
+  return startMonitoringWithRendering(
+    performanceClasses,
+    weights,
+    intervalMs,
+    (nativeClasses) => {
+      const params = weightedClasses
+        .filter((wc) => nativeClasses.indexOf(wc.performanceClass) !== -1)
+        .map((wc) => ({
+          performanceClass: wc.performanceClass,
+          weight: wc.weight,
+        }));
+
+      return callNative(
+        'MONITORING_ERROR',
+        { performanceClasses: nativeClasses },
+        () => getBackend().startWeightedMonitoring(params, intervalMs)
+      );
+    }
+  ).then((monitoringId) => {
+    registerWeightedMonitor(monitoringId, weights);
+    return trackMonitor(
+      createMonitorInfo(
+        monitoringId,
+        'weighted',
+        performanceClasses,
+        weights,
+        intervalMs,
+        options
+      ),
+      createMonitorControls(monitoringId, performanceClasses, weights)
+    );
+  });
+}
+
+/**
+ * Start monitoring driven by device state changes instead of a fixed interval.
+ * Native change callbacks (battery and power save broadcasts, connectivity
+ * changes, onTrimMemory, thermal status) are used where available, and
+ * classes without them are polled every `fallbackIntervalMs`. Threshold
+ * listeners are notified whenever triggers start matching.
+ */
+export function startThresholdMonitoring(
+  triggers: MonitoringTrigger[],
+  options: ThresholdMonitoringOptions = {}
+): Promise<string> {
+  const fallbackIntervalMs = options.fallbackIntervalMs ?? 60000;
+  const performanceClasses = triggers
+    .map((trigger) => trigger.performanceClass)
+    .filter(
+      (performanceClass, index, all) => all.indexOf(performanceClass) === index
+    );
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return trackFakeMonitor(
+      'fake-threshold-monitoring',
+      'threshold',
+      performanceClasses,
+      {},
+      fallbackIntervalMs,
+      {}
+    );
+  }
+  const startedIds: string[] = [];
+  const unsupportedErrors: DroidDexError[] = [];
+
+  // One monitor per class, so that each trigger is evaluated against the
+  // level of its own class. Classes unsupported on this device are skipped.
+  const startClassMonitor = (
+    performanceClass: PerformanceClass
+  ): Promise<string | null> =>
+    startMonitoringWithRendering(
+      [performanceClass],
+      {},
+      fallbackIntervalMs,
+      (nativeClasses) =>
+        callNative(
+          'MONITORING_ERROR',
+          { performanceClasses: nativeClasses },
+          () =>
+            getBackend().startEventMonitoring(nativeClasses, fallbackIntervalMs)
+        )
+    ).then(
+      (classMonitoringId) => {
+        startedIds.push(classMonitoringId);
+        return classMonitoringId;
+      },
+      (error) => {
+        if (isDroidDexError(error, 'NO_SUPPORTED_CLASSES')) {
+          unsupportedErrors.push(error);
+          return null;
+        }
+        return Promise.reject(error);
+      }
+    );
+
+  return Promise.all(performanceClasses.map(startClassMonitor)).then(
+    (classMonitoringIds) => {
+      if (startedIds.length === 0) {
+        return Promise.reject(unsupportedErrors[0]);
+      }
+
+      thresholdMonitorCount++;
+      const monitoringId = `threshold-monitoring-${thresholdMonitorCount}`;
+      const evaluateTriggers = createTriggerEvaluator(triggers);
+      const forwardError = (error: DroidDexError) =>
+        dispatch(errorRegistry, monitoringId, error);
+      const subscriptions: DroidDexSubscription[] = [];
+      const startedClasses: PerformanceClass[] = [];
+      const classControls: MonitorControls[] = [];
+
+      classMonitoringIds.forEach((classMonitoringId, index) => {
+        if (classMonitoringId === null) {
+          return;
+        }
+        startedClasses.push(performanceClasses[index]);
+        classControls.push(
+          createMonitorControls(
+            classMonitoringId,
+            [performanceClasses[index]],
+            {}
+          )
+        );
+        subscriptions.push(
+          subscribeToPerformanceEvents(
+            classMonitoringId,
+            (result) => {
+              const fired = evaluateTriggers(performanceClasses[index], result);
+              if (fired.length > 0) {
+                dispatch(thresholdRegistry, monitoringId, {
+                  monitoringId,
+                  triggers: fired,
+                  result,
+                });
+              }
+            },
+            forwardError
+          ),
+          subscribeToErrorEvents(classMonitoringId, forwardError)
+        );
+      });
+
+      thresholdMonitors.set(monitoringId, {
+        monitoringIds: startedIds,
+        subscriptions,
+      });
+      return trackMonitor(
+        createMonitorInfo(
+          monitoringId,
+          'threshold',
+          startedClasses,
+          {},
+          fallbackIntervalMs,
+          {}
+        ),
+        {
+          pause: () =>
+            Promise.all(classControls.map((controls) => controls.pause())).then(
+              (results) => results.some(Boolean)
+            ),
+          resume: (intervalMs) =>
+            Promise.all(
+              classControls.map((controls) => controls.resume(intervalMs))
+            ).then((results) => results.some(Boolean)),
+        }
+      );
+    },
+    (error) =>
+      // Don't leave the monitors of the other classes running
+      Promise.all(startedIds.map(stopMonitoring)).then(
+        () => Promise.reject(error),
+        () => Promise.reject(error)
+      )
+  );
+}
+
+/**
+ * Stop performance monitoring
+ */
+export function stopMonitoring(monitoringId: string): Promise<boolean> {
+  releaseMonitor(monitoringId);
+
+  const thresholdMonitor = thresholdMonitors.get(monitoringId);
+  if (thresholdMonitor) {
+    thresholdMonitors.delete(monitoringId);
+    thresholdMonitor.subscriptions.forEach((subscription) =>
+      subscription.remove()
+    );
+    return Promise.all(thresholdMonitor.monitoringIds.map(stopMonitoring)).then(
+      (results) => results.every(Boolean)
+    );
+  }
+
+  if (renderingOnlyMonitors.has(monitoringId)) {
+    const timer = renderingOnlyMonitors.get(monitoringId);
+    if (timer) {
+      clearInterval(timer);
+    }
+    renderingOnlyMonitors.delete(monitoringId);
+    return Promise.resolve(true);
+  }
+
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return Promise.resolve(true);
+  }
+
+  return callNative('MONITORING_ERROR', { monitoringId }, () =>
+    getBackend().stopMonitoring(monitoringId)
+  );
+}
+
+/**
+ * Stop all performance monitoring
+ */
+export function stopAllMonitoring(): Promise<boolean> {
+  detachAutoMonitor();
+  clearRegistry(performanceRegistry);
+  clearRegistry(errorRegistry);
+  clearRegistry(thresholdRegistry);
+  clearRegistry(lifecycleRegistry);
+  clearLifecycleMonitors();
+  monitorRecords.clear();
+  terminationSubscription?.remove();
+  terminationSubscription = null;
+  unwatchMonitorResults();
+  thresholdMonitors.forEach((thresholdMonitor) =>
+    thresholdMonitor.subscriptions.forEach((subscription) =>
+      subscription.remove()
+    )
+  );
+  thresholdMonitors.clear();
+  unregisterAllRenderingMonitors();
+  unregisterAllWeightedMonitors();
+  renderingOnlyMonitors.forEach((timer) => {
+    if (timer) {
+      clearInterval(timer);
+    }
+  });
+  renderingOnlyMonitors.clear();
+
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return Promise.resolve(true);
+  }
+
+  return callNative('MONITORING_ERROR', {}, () =>
+    getBackend().stopAllMonitoring()
+  );
+}
+
+/**
+ * List the active monitors, including the fake ones returned while disabled
+ */
+export function listMonitors(): MonitorInfo[] {
+  return Array.from(monitorRecords.values()).map((record) =>
+    copyMonitorInfo(record.info)
+  );
+}
+
+/**
+ * Describe an active monitor. Throws a DroidDexMonitorNotFoundError for
+ * unknown or stopped monitors.
+ */
+export function getMonitor(monitoringId: string): MonitorInfo {
+  const record = monitorRecords.get(monitoringId);
+  if (!record) {
+    throw new DroidDexMonitorNotFoundError(monitoringId);
+  }
+  return copyMonitorInfo(record.info);
+}
+
+/**
+ * Change the interval, classes or weights of a monitor, keeping its ID,
+ * listeners and paused state. Threshold monitors can't be updated, and a
+ * monitor of RENDERING alone can't switch to native classes or back.
+ */
+export function updateMonitor(
+  monitoringId: string,
+  update: MonitorUpdate
+): Promise<MonitorInfo> {
+  const record = monitorRecords.get(monitoringId);
+  if (!record) {
+    return Promise.reject(new DroidDexMonitorNotFoundError(monitoringId));
+  }
+
+  const { info } = record;
+  const performanceClasses = update.classes ?? info.performanceClasses;
+  const rejectUpdate = (message: string) =>
+    Promise.reject(
+      new DroidDexMonitoringError(message, {
+        monitoringId,
+        performanceClasses,
+        recoverable: false,
+      })
+    );
+  if (info.type === 'threshold') {
+    return rejectUpdate('Threshold monitors cannot be updated');
+  }
+  if (performanceClasses.length === 0) {
+    return Promise.reject(
+      new DroidDexArgumentError(
+        'classes',
+        'A monitor needs at least one performance class',
+        { monitoringId }
+      )
+    );
+  }
+
+  const isFake = record.controls === FAKE_MONITOR_CONTROLS;
+  const isRenderingOnly = renderingOnlyMonitors.has(monitoringId);
+  const nativeClasses = getNativeClasses(performanceClasses);
+  if (!isFake && isRenderingOnly !== (nativeClasses.length === 0)) {
+    return rejectUpdate(
+      'A monitor of RENDERING alone runs in JS and cannot switch to native classes or back, start a new monitor instead'
+    );
+  }
+
+  const type: MonitorType =
+    info.type === 'weighted' || update.weights !== undefined
+      ? 'weighted'
+      : 'standard';
+  let weights: ClassWeights = {};
+  if (type === 'weighted') {
+    try {
+      weights = getClassWeights(
+        normalizeWeightedClasses(
+          performanceClasses.map((performanceClass) => ({
+            performanceClass,
+            weight:
+              update.weights?.[performanceClass] ??
+              info.weights?.[performanceClass] ??
+              1,
+          })),
+          'weights'
+        )
+      );
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+  const intervalMs = update.intervalMs ?? info.intervalMs;
+
+  let applied: Promise<unknown> = Promise.resolve();
+  if (isRenderingOnly) {
+    if (!info.paused) {
+      scheduleRenderingOnlyMonitor(monitoringId, intervalMs);
+    }
+  } else if (!isFake) {
+    const params = nativeClasses.map((performanceClass) => ({
+      performanceClass,
+      weight: weights[performanceClass] ?? 1,
+    }));
+    applied = callNative(
+      'MONITORING_ERROR',
+      { monitoringId, performanceClasses: nativeClasses },
+      () =>
+        getBackend().updateMonitoring(
+          monitoringId,
+          params,
+          type === 'weighted',
+          intervalMs
+        )
+    ).then((updated) =>
+      updated
+        ? undefined
+        : Promise.reject(new DroidDexMonitorNotFoundError(monitoringId))
+    );
+  }
+
+  return applied.then(() => {
+    record.info = {
+      ...createMonitorInfo(
+        monitoringId,
+        type,
+        performanceClasses,
+        weights,
+        intervalMs,
+        info.options
+      ),
+      paused: info.paused,
+      startedAt: info.startedAt,
+    };
+    if (!isFake) {
+      if (!info.paused) {
+        if (performanceClasses.indexOf(PerformanceClass.RENDERING) !== -1) {
+          registerRenderingMonitor(monitoringId, weights);
+        } else {
+          unregisterRenderingMonitor(monitoringId);
+        }
+      }
+      if (type === 'weighted') {
+        registerWeightedMonitor(monitoringId, weights);
+      }
+      record.controls = createMonitorControls(
+        monitoringId,
+        performanceClasses,
+        weights
+      );
+      registerMonitorLifecycle(record);
+    }
+    return copyMonitorInfo(record.info);
+  });
+}
+
+/**
+ * Pause a monitor until resumeMonitor is called, even across foreground
+ * changes. Resolves to false when it was already paused.
+ */
+export function pauseMonitor(monitoringId: string): Promise<boolean> {
+  const record = monitorRecords.get(monitoringId);
+  if (!record) {
+    return Promise.reject(new DroidDexMonitorNotFoundError(monitoringId));
+  }
+
+  record.userPaused = true;
+  if (record.info.paused) {
+    return Promise.resolve(false);
+  }
+  return setMonitorPaused(record, true).then((paused) => {
+    if (paused) {
+      emitLifecycleEvent({
+        monitoringId,
+        state: 'paused',
+        timestamp: Date.now(),
+      });
+    }
+    return paused;
+  });
+}
+
+/**
+ * Resume a paused monitor, which samples right away. Resolves to false when
+ * it was not paused.
+ */
+export function resumeMonitor(monitoringId: string): Promise<boolean> {
+  const record = monitorRecords.get(monitoringId);
+  if (!record) {
+    return Promise.reject(new DroidDexMonitorNotFoundError(monitoringId));
+  }
+
+  record.userPaused = false;
+  if (!record.info.paused) {
+    return Promise.resolve(false);
+  }
+  return setMonitorPaused(record, false).then((resumed) => {
+    if (resumed) {
+      emitLifecycleEvent({
+        monitoringId,
+        state: 'resumed',
+        timestamp: Date.now(),
+      });
+    }
+    return resumed;
+  });
+}
+
+/**
+ * Deliver a result replayed from a recording to the listeners of its
+ * monitoring ID. While disabled or unavailable, addPerformanceListener
+ * doesn't subscribe to the event channel, so its listeners are called
+ * directly.
+ */
+export function emitReplayedResult(result: PerformanceResult): void {
+  emitPerformanceEvent(result);
+  const { monitoringId } = result;
+  if (
+    monitoringId !== undefined &&
+    !performanceRegistry.subscriptions.has(monitoringId)
+  ) {
+    dispatch(performanceRegistry, monitoringId, result);
+  }
+}
+
+/**
+ * Add performance listener. Any number of listeners can be added for the same
+ * monitoring ID, they share a single native event subscription.
+ */
+export function addPerformanceListener(
+  monitoringId: string,
+  listener: PerformanceListener
+): DroidDexSubscription {
+  return addToRegistry(performanceRegistry, monitoringId, listener, () =>
+    subscribeToPerformanceEvents(
+      monitoringId,
+      (result) => dispatch(performanceRegistry, monitoringId, result),
+      (error) => dispatch(errorRegistry, monitoringId, error)
+    )
+  );
+}
+
+/**
+ * Remove a performance listener, or every performance listener of the
+ * monitoring ID when no listener is given
+ */
+export function removePerformanceListener(
+  monitoringId: string,
+  listener?: PerformanceListener
+): void {
+  removeFromRegistry(performanceRegistry, monitoringId, listener);
+}
+
+/**
+ * Add error listener. Any number of listeners can be added for the same
+ * monitoring ID, they share a single native event subscription.
+ */
+export function addErrorListener(
+  monitoringId: string,
+  listener: ErrorListener
+): DroidDexSubscription {
+  return addToRegistry(errorRegistry, monitoringId, listener, () =>
+    subscribeToErrorEvents(monitoringId, (error) =>
+      dispatch(errorRegistry, monitoringId, error)
+    )
+  );
+}
+
+/**
+ * Remove an error listener, or every error listener of the monitoring ID
+ * when no listener is given
+ */
+export function removeErrorListener(
+  monitoringId: string,
+  listener?: ErrorListener
+): void {
+  removeFromRegistry(errorRegistry, monitoringId, listener);
+}
+
+/**
+ * Add a listener for the triggers of a threshold monitoring session
+ */
+export function addThresholdListener(
+  monitoringId: string,
+  listener: ThresholdListener
+): DroidDexSubscription {
+  // Threshold events are dispatched by startThresholdMonitoring itself, so
+  // there is no native subscription to share
+  return addToRegistry(thresholdRegistry, monitoringId, listener, () => ({
+    remove: () => {},
+  }));
+}
+
+/**
+ * Remove a threshold listener, or every threshold listener of the monitoring
+ * ID when no listener is given
+ */
+export function removeThresholdListener(
+  monitoringId: string,
+  listener?: ThresholdListener
+): void {
+  removeFromRegistry(thresholdRegistry, monitoringId, listener);
+}
+
+/**
+ * Add a listener for the lifecycle events of a monitor: `paused` and
+ * `resumed` when its lifecycle policy applies, and `terminated` when the
+ * native module stops it as the host activity is destroyed
+ */
+export function addLifecycleListener(
+  monitoringId: string,
+  listener: LifecycleListener
+): DroidDexSubscription {
+  return addToRegistry(lifecycleRegistry, monitoringId, listener, () =>
+    subscribeToLifecycleEvents(
+      monitoringId,
+      (event) => dispatch(lifecycleRegistry, monitoringId, event),
+      (error) => dispatch(errorRegistry, monitoringId, error)
+    )
+  );
+}
+
+/**
+ * Remove a lifecycle listener, or every lifecycle listener of the monitoring
+ * ID when no listener is given
+ */
+export function removeLifecycleListener(
+  monitoringId: string,
+  listener?: LifecycleListener
+): void {
+  removeFromRegistry(lifecycleRegistry, monitoringId, listener);
+}
+
+/**
+ * Add a listener for the performance updates of every monitoring session.
+ * Each result carries the `monitoringId` of the session that produced it.
+ */
+export function addGlobalPerformanceListener(
+  listener: PerformanceListener
+): DroidDexSubscription {
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return { remove: () => {} };
+  }
+  return subscribeToPerformanceEvents(null, listener);
+}
+
+/**
+ * Add a listener for the errors of every monitoring session
+ */
+export function addGlobalErrorListener(
+  listener: ErrorListener
+): DroidDexSubscription {
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return { remove: () => {} };
+  }
+  return subscribeToErrorEvents(null, listener);
+}
+
+/**
+ * Add a listener for the memory pressure notifications of the app
+ * (onTrimMemory and onLowMemory), delivered with a fresh MemoryMetrics
+ * snapshot. Useful to release caches before the OS kills the app.
+ */
+export function addMemoryPressureListener(
+  listener: MemoryPressureListener
+): DroidDexSubscription {
+  if (isProductionDisabled || !isBackendAvailable()) {
+    return { remove: () => {} };
+  }
+  return subscribeToMemoryPressureEvents(listener);
+}
+
+/**
+ * Check if DroidDex is supported on current platform (or a custom backend
+ * such as the simulator is installed)
+ */
+export function isSupported(): boolean {
+  return isBackendAvailable();
+}
+
+/**
+ * Get current platform info
+ */
+export function getPlatformInfo(): Promise<PlatformInfo> {
+  if (isProductionDisabled) {
+    return Promise.resolve({
+      platform: Platform.OS,
+      version: Platform.Version,
+      supported: false,
+      disabled: true,
+    });
+  }
+
+  if (!isBackendAvailable()) {
+    return Promise.resolve({
+      platform: Platform.OS,
+      version: Platform.Version,
+      supported: false,
+    });
+  }
+
+  return callNative('PLATFORM_ERROR', {}, () =>
+    getBackend().getPlatformInfo().then(validatePlatformInfo)
+  );
+}
@@ -0,0 +1,229 @@
+import {
+  getPerformanceLevel,
+  getPlatformInfo,
+  isDisabledForProduction,
+} from './core';
+import { PerformanceClass, PerformanceLevel } from './types';
+import type {
+  DeviceTier,
+  DeviceTierOptions,
+  LevelThresholds,
+  PlatformInfo,
+} from './types';
+import { getBackend, isBackendAvailable } from './native';
+import { combineLevels } from './levels';
+
+const STORAGE_KEY = 'deviceTier';
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const GIGABYTE = 1024 * 1024 * 1024;
+
+type TierCharacteristic = 'totalRam' | 'coreCount' | 'apiLevel';
+
+/**
+ * Cutoffs and weight of each static characteristic in the tier. The current
+ * CPU frequency and free memory vary with load and are left out.
+ */
+const TIER_CUTOFFS: {
+  characteristic: TierCharacteristic;
+  weight: number;
+  levels: LevelThresholds['levels'];
+}[] = [
+  {
+    characteristic: 'totalRam',
+    weight: 2,
+    levels: {
+      [PerformanceLevel.EXCELLENT]: 8 * GIGABYTE,
+      [PerformanceLevel.HIGH]: 6 * GIGABYTE,
+      [PerformanceLevel.AVERAGE]: 3 * GIGABYTE,
+    },
+  },
+  {
+    characteristic: 'coreCount',
+    weight: 1,
+    levels: {
+      [PerformanceLevel.EXCELLENT]: 8,
+      [PerformanceLevel.HIGH]: 6,
+      [PerformanceLevel.AVERAGE]: 4,
+    },
+  },
+  {
+    characteristic: 'apiLevel',
+    weight: 1,
+    levels: {
+      [PerformanceLevel.EXCELLENT]: 31,
+      [PerformanceLevel.HIGH]: 29,
+      [PerformanceLevel.AVERAGE]: 26,
+    },
+  },
+];
+
+let currentTier: DeviceTier | null = null;
+let pendingTier: Promise<DeviceTier> | null = null;
+
+function rateCharacteristic(
+  value: number,
+  levels: LevelThresholds['levels']
+): PerformanceLevel {
+  const level = [
+    PerformanceLevel.EXCELLENT,
+    PerformanceLevel.HIGH,
+    PerformanceLevel.AVERAGE,
+  ].find((candidate) => {
+    const cutoff = levels[candidate as keyof LevelThresholds['levels']];
+    return cutoff !== undefined && value >= cutoff;
+  });
+  return level || PerformanceLevel.LOW;
+}
+
+function rateTier(
+  characteristics: Pick<DeviceTier, TierCharacteristic>
+): PerformanceLevel {
+  const weightedLevels: { level: PerformanceLevel; weight: number }[] = [];
+  TIER_CUTOFFS.forEach(({ characteristic, weight, levels }) => {
+    const value = characteristics[characteristic];
+    if (value !== null) {
+      weightedLevels.push({ level: rateCharacteristic(value, levels), weight });
+    }
+  });
+  // Same default as the queries when nothing could be measured
+  return weightedLevels.length > 0
+    ? combineLevels(weightedLevels)
+    : PerformanceLevel.HIGH;
+}
+
+// iOS reports its version as a string
+function getApiLevel(info: PlatformInfo): number | null {
+  return typeof info.version === 'number' ? info.version : null;
+}
+
+async function computeDeviceTier(info: PlatformInfo): Promise<DeviceTier> {
+  const result = await getPerformanceLevel(PerformanceClass.CPU);
+  const cpu = result.metrics.cpu;
+  const characteristics = {
+    totalRam: cpu ? cpu.totalRam : null,
+    coreCount: cpu ? cpu.coreCount : null,
+    apiLevel: getApiLevel(info),
+  };
+  return {
+    tier: rateTier(characteristics),
+    ...characteristics,
+    model: info.model ?? null,
+    computedAt: Date.now(),
+    fromCache: false,
+  };
+}
+
+/**
+ * Cached tier, or null when missing, expired, unreadable or computed on
+ * another model or API level (e.g. before an OS update)
+ */
+async function readCachedTier(
+  info: PlatformInfo,
+  ttlMs: number
+): Promise<DeviceTier | null> {
+  try {
+    const stored = await getBackend().getStoredValue(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const cached = JSON.parse(stored) as DeviceTier;
+    const isValid =
+      typeof cached.computedAt === 'number' &&
+      Date.now() - cached.computedAt < ttlMs &&
+      cached.model === (info.model ?? null) &&
+      cached.apiLevel === getApiLevel(info) &&
+      Object.keys(PerformanceLevel).indexOf(cached.tier) !== -1;
+    return isValid ? { ...cached, fromCache: true } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function resolveDeviceTier(
+  options: DeviceTierOptions
+): Promise<DeviceTier> {
+  const info = await getPlatformInfo();
+  if (!options.refresh) {
+    const cached = await readCachedTier(info, options.ttlMs ?? DEFAULT_TTL_MS);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const tier = await computeDeviceTier(info);
+  // A failed write only costs a new computation on the next launch
+  await getBackend()
+    .setStoredValue(STORAGE_KEY, JSON.stringify(tier))
+    .catch(() => false);
+  return tier;
+}
+
+/**
+ * Stable tier of the device derived from its total RAM, CPU core count and
+ * API level, for decisions that should not follow momentary readings. The
+ * tier is cached across launches for `ttlMs`, and computed again when it
+ * expires or the model or API level changes. Calls made while a resolution
+ * is pending share it, with the `ttlMs` of its caller, except with
+ * `refresh`, which always starts a new resolution. Resolves to HIGH without
+ * caching while production disabled or on unsupported platforms.
+ */
+export function getDeviceTier(
+  options: DeviceTierOptions = {}
+): Promise<DeviceTier> {
+  if (isDisabledForProduction() || !isBackendAvailable()) {
+    currentTier = {
+      tier: PerformanceLevel.HIGH,
+      totalRam: null,
+      coreCount: null,
+      apiLevel: null,
+      model: null,
+      computedAt: Date.now(),
+      fromCache: false,
+    };
+    return Promise.resolve(currentTier);
+  }
+
+  if (pendingTier && !options.refresh) {
+    return pendingTier;
+  }
+  const resolution: Promise<DeviceTier> = resolveDeviceTier(options).then(
+    (tier) => {
+      // A refresh started meanwhile resolves the newer tier
+      if (pendingTier === resolution) {
+        currentTier = tier;
+        pendingTier = null;
+      }
+      return tier;
+    },
+    (error) => {
+      if (pendingTier === resolution) {
+        pendingTier = null;
+      }
+      throw error;
+    }
+  );
+  pendingTier = resolution;
+  return resolution;
+}
+
+/**
+ * Device tier resolved by the last getDeviceTier call, or null until one
+ * resolved. Call getDeviceTier early during startup to read it synchronously
+ * afterwards.
+ */
+export function getDeviceTierSync(): DeviceTier | null {
+  return currentTier;
+}
+
+/**
+ * Forget the cached device tier, in memory and across launches. A resolution
+ * pending meanwhile still resolves its callers, but is no longer shared nor
+ * kept as the current tier.
+ */
+export async function clearDeviceTierCache(): Promise<void> {
+  currentTier = null;
+  pendingTier = null;
+  if (isBackendAvailable()) {
+    await getBackend().setStoredValue(STORAGE_KEY, null);
+  }
+}
@@ -0,0 +1,234 @@
+import type {
+  DroidDexErrorCode,
+  DroidDexErrorContext,
+  PerformanceClass,
+} from './types';
+
+/**
+ * Error codes that are worth retrying (transient native failures)
+ */
+const RECOVERABLE_CODES: DroidDexErrorCode[] = [
+  'INIT_ERROR',
+  'PERFORMANCE_ERROR',
+  'MONITORING_ERROR',
+  'PLATFORM_ERROR',
+  'TELEMETRY_ERROR',
+  'UNKNOWN_ERROR',
+];
+
+const KNOWN_CODES: DroidDexErrorCode[] = [
+  ...RECOVERABLE_CODES,
+  'NO_SUPPORTED_CLASSES',
+  'UNSUPPORTED_VERSION',
+  'LINKING_ERROR',
+  'INVALID_PAYLOAD',
+  'MONITOR_NOT_FOUND',
+  'INVALID_ARGUMENT',
+];
+
+/**
+ * Base class for every error raised by DroidDex
+ */
+export class DroidDexError extends Error {
+  /** Machine readable error code */
+  readonly code: DroidDexErrorCode;
+  /** Performance classes involved in the failed call */
+  readonly performanceClasses: PerformanceClass[];
+  /** Monitoring session the error belongs to, if any */
+  readonly monitoringId?: string;
+  /** Whether retrying the call may succeed */
+  readonly recoverable: boolean;
+  /** Underlying native or JS error */
+  readonly cause?: unknown;
+
+  constructor(
+    code: DroidDexErrorCode,
+    message: string,
+    context: DroidDexErrorContext = {}
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.performanceClasses = context.performanceClasses || [];
+    this.monitoringId = context.monitoringId;
+    this.recoverable =
+      context.recoverable !== undefined
+        ? context.recoverable
+        : RECOVERABLE_CODES.indexOf(code) !== -1;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * The native module is missing or not linked
+ */
+export class DroidDexLinkingError extends DroidDexError {
+  constructor(message: string, context?: DroidDexErrorContext) {
+    super('LINKING_ERROR', message, context);
+  }
+}
+
+/**
+ * DroidDex failed to initialize
+ */
+export class DroidDexInitializationError extends DroidDexError {
+  constructor(message: string, context?: DroidDexErrorContext) {
+    super('INIT_ERROR', message, context);
+  }
+}
+
+/**
+ * The device, API level or requested classes are not supported
+ */
+export class DroidDexUnsupportedError extends DroidDexError {
+  constructor(
+    code: 'NO_SUPPORTED_CLASSES' | 'UNSUPPORTED_VERSION',
+    message: string,
+    context?: DroidDexErrorContext
+  ) {
+    super(code, message, context);
+  }
+}
+
+/**
+ * A performance level could not be computed
+ */
+export class DroidDexPerformanceError extends DroidDexError {
+  constructor(message: string, context?: DroidDexErrorContext) {
+    super('PERFORMANCE_ERROR', message, context);
+  }
+}
+
+/**
+ * A monitoring session failed to start, stop or produce a sample
+ */
+export class DroidDexMonitoringError extends DroidDexError {
+  constructor(message: string, context?: DroidDexErrorContext) {
+    super('MONITORING_ERROR', message, context);
+  }
+}
+
+/**
+ * No active monitor has the given monitoring ID
+ */
+export class DroidDexMonitorNotFoundError extends DroidDexError {
+  constructor(monitoringId: string, context?: DroidDexErrorContext) {
+    super('MONITOR_NOT_FOUND', `No active monitor with ID ${monitoringId}`, {
+      ...context,
+      monitoringId,
+    });
+  }
+}
+
+/**
+ * An argument passed to DroidDex is invalid, e.g. a negative weight
+ */
+export class DroidDexArgumentError extends DroidDexError {
+  /** Path of the offending argument, e.g. 'weightedClasses[1].weight' */
+  readonly path: string;
+
+  constructor(path: string, message: string, context?: DroidDexErrorContext) {
+    super('INVALID_ARGUMENT', message, context);
+    this.path = path;
+  }
+}
+
+/**
+ * A telemetry sink failed to deliver a batch
+ */
+export class DroidDexTelemetryError extends DroidDexError {
+  /** Name of the failing sink */
+  readonly sink: string;
+
+  constructor(sink: string, message: string, context?: DroidDexErrorContext) {
+    super('TELEMETRY_ERROR', message, context);
+    this.sink = sink;
+  }
+}
+
+/**
+ * A payload received from the native side does not match the expected shape
+ */
+export class DroidDexValidationError extends DroidDexError {
+  /** Path of the offending field, e.g. 'metrics.cpu.coreCount' */
+  readonly path: string;
+
+  constructor(path: string, message: string, context?: DroidDexErrorContext) {
+    super('INVALID_PAYLOAD', message, context);
+    this.path = path;
+  }
+}
+
+/**
+ * Check whether a value is a DroidDexError, optionally with a specific code
+ */
+export function isDroidDexError(
+  error: unknown,
+  code?: DroidDexErrorCode
+): error is DroidDexError {
+  return (
+    error instanceof DroidDexError &&
+    (code === undefined || error.code === code)
+  );
+}
+
+/**
+ * Create the DroidDexError subclass matching an error code
+ */
+export function createDroidDexError(
+  code: DroidDexErrorCode,
+  message: string,
+  context?: DroidDexErrorContext
+): DroidDexError {
+  switch (code) {
+    case 'LINKING_ERROR':
+      return new DroidDexLinkingError(message, context);
+    case 'INIT_ERROR':
+      return new DroidDexInitializationError(message, context);
+    case 'NO_SUPPORTED_CLASSES':
+    case 'UNSUPPORTED_VERSION':
+      return new DroidDexUnsupportedError(code, message, context);
+    case 'PERFORMANCE_ERROR':
+      return new DroidDexPerformanceError(message, context);
+    case 'MONITORING_ERROR':
+      return new DroidDexMonitoringError(message, context);
+    case 'INVALID_PAYLOAD':
+      return new DroidDexValidationError('', message, context);
+    case 'INVALID_ARGUMENT':
+      return new DroidDexArgumentError('', message, context);
+    case 'TELEMETRY_ERROR':
+      return new DroidDexTelemetryError('', message, context);
+    case 'MONITOR_NOT_FOUND':
+      return new DroidDexMonitorNotFoundError(
+        context?.monitoringId ?? '',
+        context
+      );
+    default:
+      return new DroidDexError(code, message, context);
+  }
+}
+
+/**
+ * Convert a native promise rejection, error event payload or thrown value into
+ * a DroidDexError, using `fallbackCode` when no known code is attached
+ */
+export function toDroidDexError(
+  error: unknown,
+  fallbackCode: DroidDexErrorCode,
+  context: DroidDexErrorContext = {}
+): DroidDexError {
+  if (error instanceof DroidDexError) {
+    return error;
+  }
+
+  const source = (error || {}) as { code?: unknown; message?: unknown };
+  const code =
+    KNOWN_CODES.indexOf(source.code as DroidDexErrorCode) !== -1
+      ? (source.code as DroidDexErrorCode)
+      : fallbackCode;
+  const message =
+    typeof source.message === 'string' ? source.message : String(error);
+
+  return createDroidDexError(code, message, { cause: error, ...context });
+}
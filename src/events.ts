@@ -0,0 +1,237 @@
+import type {
+  DroidDexBackend,
+  DroidDexSubscription,
+  MemoryPressureEvent,
+  MonitorLifecycleEvent,
+  PerformanceResult,
+} from './types';
+import type { DroidDexError } from './errors';
+import { toDroidDexError } from './errors';
+import {
+  ERROR_EVENT,
+  LIFECYCLE_EVENT,
+  MEMORY_PRESSURE_EVENT,
+  PERFORMANCE_EVENT,
+  getBackend,
+} from './native';
+import type { NativeErrorEvent } from './native';
+import {
+  validateLifecycleEvent,
+  validateMemoryPressureEvent,
+  validatePerformanceResult,
+} from './validation';
+import { applyRenderingMonitor } from './rendering';
+import { applyWeightedMonitor } from './weights';
+
+type EventHandler = (payload: unknown) => void;
+
+/**
+ * A multiplexed native event, routed to handlers by the `monitoringId` of its
+ * payload. Handlers registered under `null` receive the events of every
+ * monitor.
+ */
+interface EventChannel {
+  eventName: string;
+  handlers: Map<string | null, Set<EventHandler>>;
+  backend: DroidDexBackend | null;
+  subscription: DroidDexSubscription | null;
+}
+
+const performanceChannel: EventChannel = {
+  eventName: PERFORMANCE_EVENT,
+  handlers: new Map(),
+  backend: null,
+  subscription: null,
+};
+
+const errorChannel: EventChannel = {
+  eventName: ERROR_EVENT,
+  handlers: new Map(),
+  backend: null,
+  subscription: null,
+};
+
+const lifecycleChannel: EventChannel = {
+  eventName: LIFECYCLE_EVENT,
+  handlers: new Map(),
+  backend: null,
+  subscription: null,
+};
+
+// Not tied to a monitor, every handler is registered under null
+const memoryPressureChannel: EventChannel = {
+  eventName: MEMORY_PRESSURE_EVENT,
+  handlers: new Map(),
+  backend: null,
+  subscription: null,
+};
+
+function getPayloadMonitoringId(payload: unknown): string | undefined {
+  const monitoringId =
+    typeof payload === 'object' && payload !== null
+      ? (payload as { monitoringId?: unknown }).monitoringId
+      : undefined;
+  return typeof monitoringId === 'string' ? monitoringId : undefined;
+}
+
+function routeEvent(channel: EventChannel, payload: unknown): void {
+  const monitoringId = getPayloadMonitoringId(payload);
+  const handlers = [
+    ...Array.from(
+      (monitoringId !== undefined && channel.handlers.get(monitoringId)) || []
+    ),
+    ...Array.from(channel.handlers.get(null) || []),
+  ];
+  handlers.forEach((handler) => handler(payload));
+}
+
+/**
+ * Register a handler on a channel. The channel keeps a single backend
+ * subscription while it has handlers, and moves it when the backend changes.
+ */
+function subscribeToChannel(
+  channel: EventChannel,
+  monitoringId: string | null,
+  handler: EventHandler
+): DroidDexSubscription {
+  const backend = getBackend();
+  if (channel.backend !== backend) {
+    channel.subscription?.remove();
+    channel.backend = backend;
+    channel.subscription = backend.addListener(
+      channel.eventName,
+      (payload: unknown) => routeEvent(channel, payload)
+    );
+  }
+
+  const handlers = channel.handlers.get(monitoringId) || new Set();
+  handlers.add(handler);
+  channel.handlers.set(monitoringId, handlers);
+
+  return {
+    remove: () => {
+      if (!handlers.delete(handler)) {
+        return;
+      }
+      if (handlers.size === 0) {
+        channel.handlers.delete(monitoringId);
+      }
+      if (channel.handlers.size === 0) {
+        channel.subscription?.remove();
+        channel.subscription = null;
+        channel.backend = null;
+      }
+    },
+  };
+}
+
+/**
+ * Subscribe to the validated performance events of a monitoring session, or
+ * of every monitoring session when `monitoringId` is null. Payloads failing
+ * validation are passed to `onInvalid` instead.
+ */
+export function subscribeToPerformanceEvents(
+  monitoringId: string | null,
+  handler: (result: PerformanceResult) => void,
+  onInvalid?: (error: DroidDexError) => void
+): DroidDexSubscription {
+  return subscribeToChannel(
+    performanceChannel,
+    monitoringId,
+    (payload: unknown) => {
+      const context = {
+        monitoringId: getPayloadMonitoringId(payload),
+      };
+      let result: PerformanceResult;
+      try {
+        result = validatePerformanceResult(payload, context);
+      } catch (error) {
+        onInvalid?.(toDroidDexError(error, 'INVALID_PAYLOAD', context));
+        return;
+      }
+      handler(applyWeightedMonitor(applyRenderingMonitor(result)));
+    }
+  );
+}
+
+/**
+ * Emit a performance event produced in JS, routed like the native events
+ */
+export function emitPerformanceEvent(payload: PerformanceResult): void {
+  routeEvent(performanceChannel, payload);
+}
+
+/**
+ * Subscribe to the error events of a monitoring session, or of every
+ * monitoring session when `monitoringId` is null
+ */
+export function subscribeToErrorEvents(
+  monitoringId: string | null,
+  handler: (error: DroidDexError) => void
+): DroidDexSubscription {
+  return subscribeToChannel(errorChannel, monitoringId, (payload: unknown) => {
+    const event = (payload || {}) as NativeErrorEvent;
+    handler(
+      toDroidDexError(event, 'MONITORING_ERROR', {
+        monitoringId: getPayloadMonitoringId(payload),
+        performanceClasses: event.performanceClasses,
+      })
+    );
+  });
+}
+
+/**
+ * Subscribe to the validated memory pressure events of the app. Payloads
+ * failing validation are passed to `onInvalid` instead.
+ */
+export function subscribeToMemoryPressureEvents(
+  handler: (event: MemoryPressureEvent) => void,
+  onInvalid?: (error: DroidDexError) => void
+): DroidDexSubscription {
+  return subscribeToChannel(memoryPressureChannel, null, (payload: unknown) => {
+    let event: MemoryPressureEvent;
+    try {
+      event = validateMemoryPressureEvent(payload);
+    } catch (error) {
+      onInvalid?.(toDroidDexError(error, 'INVALID_PAYLOAD', {}));
+      return;
+    }
+    handler(event);
+  });
+}
+
+/**
+ * Subscribe to the validated lifecycle events of a monitoring session, or of
+ * every monitoring session when `monitoringId` is null
+ */
+export function subscribeToLifecycleEvents(
+  monitoringId: string | null,
+  handler: (event: MonitorLifecycleEvent) => void,
+  onInvalid?: (error: DroidDexError) => void
+): DroidDexSubscription {
+  return subscribeToChannel(
+    lifecycleChannel,
+    monitoringId,
+    (payload: unknown) => {
+      let event: MonitorLifecycleEvent;
+      try {
+        event = validateLifecycleEvent(payload);
+      } catch (error) {
+        onInvalid?.(
+          toDroidDexError(error, 'INVALID_PAYLOAD', {
+            monitoringId: getPayloadMonitoringId(payload),
+          })
+        );
+        return;
+      }
+      handler(event);
+    }
+  );
+}
+
+/**
+ * Emit a lifecycle event produced in JS, routed like the native events
+ */
+export function emitLifecycleEvent(event: MonitorLifecycleEvent): void {
+  routeEvent(lifecycleChannel, event);
+}
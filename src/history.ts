@@ -0,0 +1,341 @@
+import { PerformanceLevel } from './types';
+import type {
+  DeviceMetrics,
+  DeviceMetricsStats,
+  DroidDexSubscription,
+  MetricStats,
+  PerformanceHistoryOptions,
+  PerformanceHistoryStats,
+  PerformanceResult,
+  PerformanceTrend,
+} from './types';
+import { addPerformanceListener } from './core';
+import { DroidDexArgumentError } from './errors';
+import { getLevelScore } from './levels';
+
+const DEFAULT_CAPACITY = 100;
+
+/**
+ * Difference in mean level score (in levels) between the older and newer half
+ * of the samples before a trend is reported
+ */
+const TREND_THRESHOLD = 0.5;
+
+/**
+ * Fixed-size FIFO buffer overwriting the oldest item once full
+ */
+class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    if (this.count < this.capacity) {
+      this.items[(this.start + this.count) % this.capacity] = item;
+      this.count++;
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  peek(): T | undefined {
+    return this.count > 0 ? this.items[this.start] : undefined;
+  }
+
+  shift(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+    const item = this.items[this.start];
+    this.items[this.start] = undefined;
+    this.start = (this.start + 1) % this.capacity;
+    this.count--;
+    return item;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+}
+
+interface HistoryStore {
+  samples: RingBuffer<PerformanceResult>;
+  windowMs?: number;
+  subscription: DroidDexSubscription;
+}
+
+interface MetricTotals {
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+const historyStores: Map<string, HistoryStore> = new Map();
+
+function createLevelRecord(): Record<PerformanceLevel, number> {
+  return {
+    [PerformanceLevel.EXCELLENT]: 0,
+    [PerformanceLevel.HIGH]: 0,
+    [PerformanceLevel.AVERAGE]: 0,
+    [PerformanceLevel.LOW]: 0,
+  };
+}
+
+function pruneExpiredSamples(store: HistoryStore): void {
+  if (store.windowMs === undefined) {
+    return;
+  }
+  const cutoff = Date.now() - store.windowMs;
+  let oldest = store.samples.peek();
+  while (oldest && oldest.timestamp < cutoff) {
+    store.samples.shift();
+    oldest = store.samples.peek();
+  }
+}
+
+function getSamples(
+  monitoringId: string,
+  windowMs?: number
+): PerformanceResult[] {
+  const store = historyStores.get(monitoringId);
+  if (!store) {
+    return [];
+  }
+  pruneExpiredSamples(store);
+
+  const samples = store.samples.toArray();
+  if (windowMs === undefined) {
+    return samples;
+  }
+  const cutoff = Date.now() - windowMs;
+  return samples.filter((sample) => sample.timestamp >= cutoff);
+}
+
+function getMetricsStats(samples: PerformanceResult[]): DeviceMetricsStats {
+  const totals: Record<string, Record<string, MetricTotals>> = {};
+
+  samples.forEach(({ metrics }) => {
+    (Object.keys(metrics) as (keyof DeviceMetrics)[]).forEach((section) => {
+      const values = (metrics[section] || {}) as Record<string, unknown>;
+      totals[section] = totals[section] || {};
+
+      Object.keys(values).forEach((field) => {
+        const value = values[field];
+        if (typeof value !== 'number') {
+          return;
+        }
+        const total = totals[section][field];
+        if (!total) {
+          totals[section][field] = {
+            min: value,
+            max: value,
+            sum: value,
+            count: 1,
+          };
+          return;
+        }
+        total.min = Math.min(total.min, value);
+        total.max = Math.max(total.max, value);
+        total.sum += value;
+        total.count++;
+      });
+    });
+  });
+
+  const stats: Record<string, Record<string, MetricStats>> = {};
+  Object.keys(totals).forEach((section) => {
+    stats[section] = {};
+    Object.keys(totals[section]).forEach((field) => {
+      const { min, max, sum, count } = totals[section][field];
+      stats[section][field] = { min, max, mean: sum / count };
+    });
+  });
+  return stats as DeviceMetricsStats;
+}
+
+function getTrend(samples: PerformanceResult[]): PerformanceTrend {
+  if (samples.length < 2) {
+    return 'STABLE';
+  }
+  const half = Math.floor(samples.length / 2);
+  const meanScore = (items: PerformanceResult[]) =>
+    items.reduce((sum, sample) => sum + getLevelScore(sample.level), 0) /
+    items.length;
+
+  const delta =
+    meanScore(samples.slice(samples.length - half)) -
+    meanScore(samples.slice(0, half));
+  if (delta >= TREND_THRESHOLD) {
+    return 'IMPROVING';
+  }
+  if (delta <= -TREND_THRESHOLD) {
+    return 'DEGRADING';
+  }
+  return 'STABLE';
+}
+
+/**
+ * Record a sample for a monitoring session with history enabled
+ */
+function recordPerformanceSample(
+  monitoringId: string,
+  result: PerformanceResult
+): void {
+  const store = historyStores.get(monitoringId);
+  if (!store) {
+    return;
+  }
+  store.samples.push(result);
+  pruneExpiredSamples(store);
+}
+
+function validateOptions(options: PerformanceHistoryOptions): void {
+  const { capacity, windowMs } = options;
+  if (
+    capacity !== undefined &&
+    (typeof capacity !== 'number' ||
+      !Number.isInteger(capacity) ||
+      capacity < 1)
+  ) {
+    throw new DroidDexArgumentError(
+      'options.capacity',
+      `options.capacity must be an integer >= 1, got ${capacity}`
+    );
+  }
+  // NaN fails the comparison, so it is rejected along with negative values
+  if (
+    windowMs !== undefined &&
+    (typeof windowMs !== 'number' || !(windowMs > 0))
+  ) {
+    throw new DroidDexArgumentError(
+      'options.windowMs',
+      `options.windowMs must be a number > 0, got ${windowMs}`
+    );
+  }
+}
+
+/**
+ * Start recording performance results of a monitoring session in memory,
+ * through a performance listener of the session. Calling it again for the
+ * same ID discards the recorded samples.
+ */
+export function enablePerformanceHistory(
+  monitoringId: string,
+  options: PerformanceHistoryOptions = {}
+): void {
+  validateOptions(options);
+  disablePerformanceHistory(monitoringId);
+
+  const store: HistoryStore = {
+    samples: new RingBuffer(options.capacity ?? DEFAULT_CAPACITY),
+    windowMs: options.windowMs,
+    subscription: addPerformanceListener(monitoringId, (result) =>
+      recordPerformanceSample(monitoringId, result)
+    ),
+  };
+  historyStores.set(monitoringId, store);
+}
+
+/**
+ * Stop recording performance history and discard the recorded samples
+ */
+export function disablePerformanceHistory(monitoringId: string): void {
+  const store = historyStores.get(monitoringId);
+  if (store) {
+    store.subscription.remove();
+    historyStores.delete(monitoringId);
+  }
+}
+
+/**
+ * Discard the recorded samples but keep recording
+ */
+export function clearPerformanceHistory(monitoringId: string): void {
+  const store = historyStores.get(monitoringId);
+  if (store) {
+    store.samples.clear();
+  }
+}
+
+/**
+ * Get the recorded samples, oldest first, optionally limited to the last
+ * `windowMs` milliseconds
+ */
+export function getPerformanceHistory(
+  monitoringId: string,
+  windowMs?: number
+): PerformanceResult[] {
+  return getSamples(monitoringId, windowMs);
+}
+
+/**
+ * Get rolling statistics over the recorded samples, optionally limited to the
+ * last `windowMs` milliseconds
+ */
+export function getPerformanceHistoryStats(
+  monitoringId: string,
+  windowMs?: number
+): PerformanceHistoryStats {
+  const samples = getSamples(monitoringId, windowMs);
+  const levelDistribution = createLevelRecord();
+  const timeInLevel = createLevelRecord();
+  const now = Date.now();
+
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    levelDistribution[sample.level]++;
+    timeInLevel[sample.level] += Math.max(
+      0,
+      (next ? next.timestamp : now) - sample.timestamp
+    );
+  });
+
+  return {
+    sampleCount: samples.length,
+    levelDistribution,
+    timeInLevel,
+    metrics: getMetricsStats(samples),
+    trend: getTrend(samples),
+  };
+}
+
+/**
+ * Check whether the monitoring session stayed at `level` for at least the
+ * last `durationMs` milliseconds. Returns false when the recorded history
+ * does not cover the whole duration.
+ */
+export function isLevelSustained(
+  monitoringId: string,
+  level: PerformanceLevel,
+  durationMs: number
+): boolean {
+  const samples = getSamples(monitoringId);
+  const windowStart = Date.now() - durationMs;
+
+  let firstIndex = -1;
+  samples.forEach((sample, index) => {
+    if (sample.timestamp <= windowStart) {
+      firstIndex = index;
+    }
+  });
+  if (firstIndex === -1) {
+    return false;
+  }
+  return samples.slice(firstIndex).every((sample) => sample.level === level);
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import {
+  getPerformanceLevel,
+  getWeightedPerformanceLevel,
+  startMonitoring,
+  stopMonitoring,
+  addPerformanceListener,
+  addErrorListener,
+} from './core';
+import type {
+  PerformanceClass,
+  PerformanceResult,
+  WeightedClassesInput,
+  PerformanceHookState,
+  DroidDexSubscription,
+} from './types';
+import { toDroidDexError } from './errors';
+import type { DroidDexError } from './errors';
+import { getMonitoringInterval } from './autoMonitoring';
+
+type SharedMonitorSubscriber = (
+  result: PerformanceResult | null,
+  error: DroidDexError | null
+) => void;
+
+interface SharedMonitor {
+  monitoringId: Promise<string>;
+  subscribers: Set<SharedMonitorSubscriber>;
+  lastResult: PerformanceResult | null;
+  lastError: DroidDexError | null;
+  subscriptions: DroidDexSubscription[];
+}
+
+const sharedMonitors: Map<string, SharedMonitor> = new Map();
+
+const INITIAL_STATE: PerformanceHookState = {
+  level: null,
+  metrics: null,
+  error: null,
+  loading: true,
+};
+
+/**
+ * Build a stable key for a set of classes, independent of argument order
+ */
+function getClassesKey(performanceClasses: PerformanceClass[]): string {
+  return JSON.stringify([...performanceClasses].sort());
+}
+
+/**
+ * Build a stable key for a set of weighted classes, independent of argument
+ * order, or for a preset name
+ */
+function getWeightsKey(input: WeightedClassesInput): string {
+  if (typeof input === 'string') {
+    return JSON.stringify(input);
+  }
+  return JSON.stringify(
+    input
+      .map((wc) => ({
+        performanceClass: wc.performanceClass,
+        weight: wc.weight,
+      }))
+      .sort((a, b) => a.performanceClass.localeCompare(b.performanceClass))
+  );
+}
+
+function toHookState(
+  result: PerformanceResult | null,
+  error: DroidDexError | null
+): PerformanceHookState {
+  return {
+    level: result ? result.level : null,
+    metrics: result ? result.metrics : null,
+    error,
+    loading: !result && !error,
+  };
+}
+
+function notifySubscribers(monitor: SharedMonitor): void {
+  monitor.subscribers.forEach((subscriber) =>
+    subscriber(monitor.lastResult, monitor.lastError)
+  );
+}
+
+/**
+ * Subscribe to a native monitor shared by every caller requesting the same
+ * classes and interval. The monitor is started on first subscription and
+ * stopped once the last subscriber is gone. A monitor failing to start is
+ * forgotten after its subscribers get the error, so the next one retries.
+ */
+export function subscribeToSharedMonitor(
+  performanceClasses: PerformanceClass[],
+  intervalMs: number,
+  subscriber: SharedMonitorSubscriber
+): () => void {
+  const key = `${getClassesKey(performanceClasses)}@${intervalMs}`;
+  let monitor = sharedMonitors.get(key);
+
+  if (!monitor) {
+    const newMonitor: SharedMonitor = {
+      monitoringId: startMonitoring(performanceClasses, intervalMs),
+      subscribers: new Set(),
+      lastResult: null,
+      lastError: null,
+      subscriptions: [],
+    };
+
+    newMonitor.monitoringId.then(
+      (monitoringId) => {
+        if (sharedMonitors.get(key) !== newMonitor) {
+          // Every subscriber left before the monitor finished starting
+          stopMonitoring(monitoringId).catch(() => {});
+          return;
+        }
+
+        newMonitor.subscriptions = [
+          addPerformanceListener(monitoringId, (result) => {
+            newMonitor.lastResult = result;
+            newMonitor.lastError = null;
+            notifySubscribers(newMonitor);
+          }),
+          addErrorListener(monitoringId, (error) => {
+            newMonitor.lastError = error;
+            notifySubscribers(newMonitor);
+          }),
+        ];
+      },
+      (error) => {
+        if (sharedMonitors.get(key) === newMonitor) {
+          sharedMonitors.delete(key);
+        }
+        newMonitor.lastError = toDroidDexError(error, 'MONITORING_ERROR', {
+          performanceClasses,
+        });
+        notifySubscribers(newMonitor);
+      }
+    );
+
+    sharedMonitors.set(key, newMonitor);
+    monitor = newMonitor;
+  }
+
+  const activeMonitor = monitor;
+  activeMonitor.subscribers.add(subscriber);
+
+  if (activeMonitor.lastResult || activeMonitor.lastError) {
+    subscriber(activeMonitor.lastResult, activeMonitor.lastError);
+  }
+
+  return () => {
+    activeMonitor.subscribers.delete(subscriber);
+    if (
+      activeMonitor.subscribers.size > 0 ||
+      sharedMonitors.get(key) !== activeMonitor
+    ) {
+      return;
+    }
+
+    sharedMonitors.delete(key);
+    activeMonitor.monitoringId.then(
+      (monitoringId) => {
+        activeMonitor.subscriptions.forEach((subscription) =>
+          subscription.remove()
+        );
+        stopMonitoring(monitoringId).catch(() => {});
+      },
+      () => {}
+    );
+  };
+}
+
+/**
+ * Get the performance level for the given classes once on mount, and again
+ * whenever the requested classes change
+ */
+export function usePerformanceLevel(
+  ...performanceClasses: PerformanceClass[]
+): PerformanceHookState {
+  const [state, setState] = useState<PerformanceHookState>(INITIAL_STATE);
+  const key = getClassesKey(performanceClasses);
+
+  useEffect(() => {
+    let cancelled = false;
+    const requestedClasses: PerformanceClass[] = JSON.parse(key);
+
+    setState(INITIAL_STATE);
+    getPerformanceLevel(...requestedClasses).then(
+      (result) => !cancelled && setState(toHookState(result, null)),
+      (error) => !cancelled && setState(toHookState(null, error))
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return state;
+}
+
+/**
+ * Get the weighted performance level once on mount, and again whenever the
+ * weights change
+ */
+export function useWeightedPerformanceLevel(
+  weightedClasses: WeightedClassesInput
+): PerformanceHookState {
+  const [state, setState] = useState<PerformanceHookState>(INITIAL_STATE);
+  const key = getWeightsKey(weightedClasses);
+
+  useEffect(() => {
+    let cancelled = false;
+    const requestedWeights: WeightedClassesInput = JSON.parse(key);
+
+    setState(INITIAL_STATE);
+    getWeightedPerformanceLevel(requestedWeights).then(
+      (result) => !cancelled && setState(toHookState(result, null)),
+      (error) => !cancelled && setState(toHookState(null, error))
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return state;
+}
+
+/**
+ * Continuously monitor the given classes while the component is mounted.
+ * Components requesting the same classes and interval share one native monitor.
+ */
+export function usePerformanceMonitor(
+  performanceClasses: PerformanceClass[],
+  intervalMs: number = getMonitoringInterval()
+): PerformanceHookState {
+  const [state, setState] = useState<PerformanceHookState>(INITIAL_STATE);
+  const key = getClassesKey(performanceClasses);
+
+  useEffect(() => {
+    const requestedClasses: PerformanceClass[] = JSON.parse(key);
+
+    setState(INITIAL_STATE);
+    return subscribeToSharedMonitor(
+      requestedClasses,
+      intervalMs,
+      (result, error) => setState(toHookState(result, error))
+    );
+  }, [key, intervalMs]);
+
+  return state;
+}
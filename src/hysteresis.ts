@@ -0,0 +1,92 @@
+import type {
+  DroidDexSubscription,
+  LevelChangeDetector,
+  LevelChangeListener,
+  LevelChangeOptions,
+  PerformanceLevel,
+} from './types';
+import { addPerformanceListener } from './core';
+import { compareLevels } from './levels';
+
+const DEFAULT_LEVEL_CHANGE_OPTIONS: Required<LevelChangeOptions> = {
+  downgradeSamples: 1,
+  upgradeSamples: 3,
+  downgradeDwellMs: 0,
+  upgradeDwellMs: 0,
+};
+
+/**
+ * Create a stateful level change detector. The first sample is always
+ * reported. Afterwards, a change is only reported once enough consecutive
+ * samples pointing in the same direction (worse or better than the reported
+ * level) have been seen for long enough.
+ */
+export function createLevelChangeDetector(
+  options: LevelChangeOptions = {}
+): LevelChangeDetector {
+  const rules = { ...DEFAULT_LEVEL_CHANGE_OPTIONS, ...options };
+  let currentLevel: PerformanceLevel | null = null;
+  let pendingDirection = 0;
+  let pendingCount = 0;
+  let pendingSince = 0;
+
+  return (result) => {
+    if (currentLevel === null) {
+      currentLevel = result.level;
+      return { level: result.level, previousLevel: null, result };
+    }
+
+    const direction = Math.sign(compareLevels(result.level, currentLevel));
+    if (direction === 0) {
+      pendingDirection = 0;
+      pendingCount = 0;
+      return null;
+    }
+
+    if (direction !== pendingDirection) {
+      pendingDirection = direction;
+      pendingCount = 0;
+      pendingSince = result.timestamp;
+    }
+    pendingCount++;
+
+    const requiredSamples =
+      direction < 0 ? rules.downgradeSamples : rules.upgradeSamples;
+    const requiredDwellMs =
+      direction < 0 ? rules.downgradeDwellMs : rules.upgradeDwellMs;
+    if (
+      pendingCount < requiredSamples ||
+      result.timestamp - pendingSince < requiredDwellMs
+    ) {
+      return null;
+    }
+
+    const previousLevel = currentLevel;
+    currentLevel = result.level;
+    pendingDirection = 0;
+    pendingCount = 0;
+    return { level: result.level, previousLevel, result };
+  };
+}
+
+/**
+ * Listen for level changes of a monitoring session. Unlike performance
+ * listeners, the callback only fires when the level actually changes, after
+ * the hysteresis rules in `options` are satisfied (by default downgrades are
+ * reported immediately and upgrades after 3 consecutive better samples).
+ * The callback is a performance listener of the session, removed along with
+ * the others by `removePerformanceListener`.
+ */
+export function onLevelChange(
+  monitoringId: string,
+  listener: LevelChangeListener,
+  options?: LevelChangeOptions
+): DroidDexSubscription {
+  const detectLevelChange = createLevelChangeDetector(options);
+  return addPerformanceListener(monitoringId, (result) => {
+    const event = detectLevelChange(result);
+    if (event) {
+      listener(event);
+    }
+  });
+}
@@ -0,0 +1,99 @@
+import { PerformanceLevel } from './types';
+import type {
+  PerformanceClass,
+  PerformanceResult,
+  ScoringStrategy,
+} from './types';
+
+/**
+ * Performance levels ordered from worst to best
+ */
+export const PERFORMANCE_LEVEL_ORDER: PerformanceLevel[] = [
+  PerformanceLevel.LOW,
+  PerformanceLevel.AVERAGE,
+  PerformanceLevel.HIGH,
+  PerformanceLevel.EXCELLENT,
+];
+
+/**
+ * Numeric score of a performance level (LOW = 0 ... EXCELLENT = 3)
+ */
+export function getLevelScore(level: PerformanceLevel): number {
+  return PERFORMANCE_LEVEL_ORDER.indexOf(level);
+}
+
+/**
+ * Combine levels with a scoring strategy, by default into their weighted mean
+ * level rounded to the nearest level. Levels with a weight of 0 only count
+ * when every weight is 0, in which case the worst level is returned.
+ */
+export function combineLevels(
+  weightedLevels: { level: PerformanceLevel; weight: number }[],
+  strategy: ScoringStrategy = 'weighted-mean'
+): PerformanceLevel {
+  const weighted = weightedLevels.filter(({ weight }) => weight > 0);
+  if (weighted.length === 0) {
+    const worstScore = Math.min(
+      ...weightedLevels.map(({ level }) => getLevelScore(level))
+    );
+    return PERFORMANCE_LEVEL_ORDER[Math.max(0, worstScore)];
+  }
+
+  const scores = weighted.map(({ level }) => getLevelScore(level));
+  if (strategy === 'worst') {
+    return PERFORMANCE_LEVEL_ORDER[Math.min(...scores)];
+  }
+  if (strategy === 'best') {
+    return PERFORMANCE_LEVEL_ORDER[Math.max(...scores)];
+  }
+
+  const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+  const score =
+    weighted.reduce(
+      (sum, { level, weight }) => sum + getLevelScore(level) * weight,
+      0
+    ) / totalWeight;
+  return PERFORMANCE_LEVEL_ORDER[Math.round(score)];
+}
+
+/**
+ * Compare two performance levels. Returns a negative number if `a` is worse
+ * than `b`, a positive number if it is better and 0 if they are equal.
+ */
+export function compareLevels(
+  a: PerformanceLevel,
+  b: PerformanceLevel
+): number {
+  return getLevelScore(a) - getLevelScore(b);
+}
+
+/**
+ * Class with the worst level in the breakdown of a result, i.e. the bottleneck
+ * dragging its level down. Ties go to the class with the highest weight, then
+ * to the first supported class. Returns null when the breakdown is empty.
+ */
+export function getLimitingClass(
+  result: PerformanceResult
+): PerformanceClass | null {
+  let limitingClass: PerformanceClass | null = null;
+  let limitingScore = Infinity;
+  let limitingWeight = -Infinity;
+
+  result.supportedClasses.forEach((performanceClass) => {
+    const classBreakdown = result.breakdown[performanceClass];
+    if (!classBreakdown) {
+      return;
+    }
+    const score = getLevelScore(classBreakdown.level);
+    const weight = classBreakdown.weight ?? 1;
+    if (
+      score < limitingScore ||
+      (score === limitingScore && weight > limitingWeight)
+    ) {
+      limitingClass = performanceClass;
+      limitingScore = score;
+      limitingWeight = weight;
+    }
+  });
+  return limitingClass;
+}
@@ -0,0 +1,112 @@
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import type { DroidDexSubscription, MonitoringOptions } from './types';
+import { emitLifecycleEvent } from './events';
+
+/**
+ * Operations applying a lifecycle policy to a monitor. They resolve to false
+ * instead of rejecting when the monitor could not be updated.
+ */
+export interface MonitorControls {
+  pause(): Promise<boolean>;
+  /** Restart sampling at intervalMs, resuming the monitor if it was paused */
+  resume(intervalMs: number): Promise<boolean>;
+}
+
+interface LifecycleMonitor {
+  intervalMs: number;
+  options: MonitoringOptions;
+  controls: MonitorControls;
+}
+
+const lifecycleMonitors: Map<string, LifecycleMonitor> = new Map();
+let appStateSubscription: DroidDexSubscription | null = null;
+let isInBackground = false;
+
+function applyAppState(
+  monitoringId: string,
+  monitor: LifecycleMonitor,
+  background: boolean
+): void {
+  const { options, controls } = monitor;
+  if (!options.pauseInBackground) {
+    controls.resume(
+      background && options.backgroundIntervalMs !== undefined
+        ? options.backgroundIntervalMs
+        : monitor.intervalMs
+    );
+    return;
+  }
+
+  const update = background
+    ? controls.pause()
+    : controls.resume(monitor.intervalMs);
+  update.then((applied) => {
+    if (applied && lifecycleMonitors.get(monitoringId) === monitor) {
+      emitLifecycleEvent({
+        monitoringId,
+        state: background ? 'paused' : 'resumed',
+        timestamp: Date.now(),
+      });
+    }
+  });
+}
+
+function onAppStateChange(state: AppStateStatus): void {
+  // `inactive` is transient (e.g. the app switcher on iOS) and keeps the
+  // current policy
+  if (state !== 'background' && state !== 'active') {
+    return;
+  }
+  const background = state === 'background';
+  if (background === isInBackground) {
+    return;
+  }
+  isInBackground = background;
+  lifecycleMonitors.forEach((monitor, monitoringId) =>
+    applyAppState(monitoringId, monitor, background)
+  );
+}
+
+/**
+ * Apply the lifecycle policy of a monitor when the app moves between
+ * foreground and background. Monitors without a policy are ignored.
+ */
+export function registerLifecycleMonitor(
+  monitoringId: string,
+  intervalMs: number,
+  options: MonitoringOptions,
+  controls: MonitorControls
+): void {
+  if (
+    !options.pauseInBackground &&
+    options.backgroundIntervalMs === undefined
+  ) {
+    return;
+  }
+
+  const monitor: LifecycleMonitor = { intervalMs, options, controls };
+  lifecycleMonitors.set(monitoringId, monitor);
+  if (!appStateSubscription) {
+    isInBackground = AppState.currentState === 'background';
+    appStateSubscription = AppState.addEventListener(
+      'change',
+      onAppStateChange
+    );
+  }
+  if (isInBackground) {
+    applyAppState(monitoringId, monitor, true);
+  }
+}
+
+export function unregisterLifecycleMonitor(monitoringId: string): void {
+  lifecycleMonitors.delete(monitoringId);
+  if (lifecycleMonitors.size === 0 && appStateSubscription) {
+    appStateSubscription.remove();
+    appStateSubscription = null;
+  }
+}
+
+export function clearLifecycleMonitors(): void {
+  Array.from(lifecycleMonitors.keys()).forEach(unregisterLifecycleMonitor);
+}
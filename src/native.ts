@@ -0,0 +1,131 @@
+import { NativeModules, Platform, NativeEventEmitter } from 'react-native';
+import type { DroidDexBackend, PerformanceClass } from './types';
+import { DroidDexLinkingError } from './errors';
+import NativeDroidDex from './NativeDroidDex';
+import type { Spec } from './NativeDroidDex';
+
+const LINKING_ERROR =
+  `The package 'react-native-droid-dex' doesn't seem to be linked. Make sure: \n\n` +
+  (Platform.OS === 'android'
+    ? "- You have run 'cd android && ./gradlew clean'\n" +
+      "- You have included 'react-native-droid-dex' in the dependencies section of your project's build.gradle file\n" +
+      '- You have added the implementation line in your MainApplication.java file'
+    : Platform.OS === 'ios'
+    ? "- You have run 'cd ios && pod install'\n" +
+      '- You have included the iOS implementation (currently Android only)'
+    : '');
+
+/**
+ * The TurboModule when the New Architecture is enabled, otherwise the legacy
+ * bridge module
+ */
+const DroidDexModule: Spec =
+  NativeDroidDex ||
+  NativeModules.DroidDex ||
+  new Proxy(
+    {},
+    {
+      get() {
+        throw new DroidDexLinkingError(LINKING_ERROR);
+      },
+    }
+  );
+
+/**
+ * Payload of the native error event
+ */
+export interface NativeErrorEvent {
+  monitoringId?: string;
+  code?: string;
+  message: string;
+  performanceClasses?: PerformanceClass[];
+}
+
+const eventEmitter: NativeEventEmitter | null =
+  Platform.OS === 'android' ? new NativeEventEmitter(DroidDexModule) : null;
+
+/**
+ * Backend talking to the DroidDex native module
+ */
+const nativeBackend: DroidDexBackend = {
+  initialize: (config) => DroidDexModule.initialize(config),
+  getPerformanceLevel: (performanceClasses) =>
+    DroidDexModule.getPerformanceLevel(performanceClasses),
+  getWeightedPerformanceLevel: (weightedClasses) =>
+    DroidDexModule.getWeightedPerformanceLevel(weightedClasses),
+  startMonitoring: (performanceClasses, intervalMs) =>
+    DroidDexModule.startMonitoring(performanceClasses, intervalMs),
+  startWeightedMonitoring: (weightedClasses, intervalMs) =>
+    DroidDexModule.startWeightedMonitoring(weightedClasses, intervalMs),
+  startEventMonitoring: (performanceClasses, fallbackIntervalMs) =>
+    DroidDexModule.startEventMonitoring(performanceClasses, fallbackIntervalMs),
+  pauseMonitoring: (monitoringId) =>
+    DroidDexModule.pauseMonitoring(monitoringId),
+  resumeMonitoring: (monitoringId, intervalMs) =>
+    DroidDexModule.resumeMonitoring(monitoringId, intervalMs),
+  updateMonitoring: (monitoringId, weightedClasses, weighted, intervalMs) =>
+    DroidDexModule.updateMonitoring(
+      monitoringId,
+      weightedClasses,
+      weighted,
+      intervalMs
+    ),
+  stopMonitoring: (monitoringId) => DroidDexModule.stopMonitoring(monitoringId),
+  stopAllMonitoring: () => DroidDexModule.stopAllMonitoring(),
+  getPlatformInfo: () => DroidDexModule.getPlatformInfo(),
+  getStoredValue: (key) => DroidDexModule.getStoredValue(key),
+  setStoredValue: (key, value) => DroidDexModule.setStoredValue(key, value),
+  addListener: (eventName, listener) =>
+    eventEmitter
+      ? eventEmitter.addListener(eventName, listener)
+      : { remove: () => {} },
+};
+
+let customBackend: DroidDexBackend | null = null;
+
+/**
+ * Event carrying the performance results of every monitor, identified by the
+ * `monitoringId` field of the payload
+ */
+export const PERFORMANCE_EVENT = 'DroidDex_Performance';
+
+/**
+ * Event carrying the errors of every monitor, identified by the
+ * `monitoringId` field of the payload
+ */
+export const ERROR_EVENT = 'DroidDex_Error';
+
+/**
+ * Event carrying the memory pressure notifications of the app
+ */
+export const MEMORY_PRESSURE_EVENT = 'DroidDex_MemoryPressure';
+
+/**
+ * Event carrying the lifecycle changes of every monitor, identified by the
+ * `monitoringId` field of the payload
+ */
+export const LIFECYCLE_EVENT = 'DroidDex_Lifecycle';
+
+/**
+ * Replace the native module with a custom backend (e.g. the simulator), or
+ * pass null to go back to the native module. Set the backend before starting
+ * monitors: existing listeners stay attached to the previous backend.
+ */
+export function setBackend(backend: DroidDexBackend | null): void {
+  customBackend = backend;
+}
+
+/**
+ * Backend currently executing DroidDex calls
+ */
+export function getBackend(): DroidDexBackend {
+  return customBackend || nativeBackend;
+}
+
+/**
+ * Whether the current backend can produce real results: a custom backend is
+ * installed, or the native module runs on Android
+ */
+export function isBackendAvailable(): boolean {
+  return customBackend !== null || Platform.OS === 'android';
+}
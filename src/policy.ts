@@ -0,0 +1,218 @@
+import {
+  addPerformanceListener,
+  getPerformanceLevel,
+  getWeightedPerformanceLevel,
+} from './core';
+import type {
+  ClassPolicyRule,
+  LevelChangeDetector,
+  LevelMap,
+  PerformanceClass,
+  PerformanceLevel,
+  PerformancePolicy,
+  PerformanceResult,
+  PolicyDefinition,
+  PolicyRule,
+  PolicySettings,
+} from './types';
+import {
+  PERFORMANCE_LEVEL_ORDER,
+  combineLevels,
+  getLevelScore,
+} from './levels';
+import { getScoringStrategy } from './scoring';
+import { createLevelChangeDetector } from './hysteresis';
+
+function isClassPolicyRule<T>(rule: PolicyRule<T>): rule is ClassPolicyRule<T> {
+  return (
+    typeof (rule as ClassPolicyRule<T>).levels === 'object' &&
+    Array.isArray((rule as ClassPolicyRule<T>).performanceClasses)
+  );
+}
+
+function getClassesKey(performanceClasses: PerformanceClass[]): string {
+  return [...performanceClasses].sort().join(',');
+}
+
+/**
+ * Pick the value for a level, falling back to the closest defined level and
+ * preferring the worse one on ties
+ */
+function pickLevelValue<T>(levels: LevelMap<T>, level: PerformanceLevel): T {
+  const score = getLevelScore(level);
+  const candidates = PERFORMANCE_LEVEL_ORDER.filter(
+    (candidate) => levels[candidate] !== undefined
+  ).sort(
+    (a, b) =>
+      Math.abs(getLevelScore(a) - score) - Math.abs(getLevelScore(b) - score) ||
+      getLevelScore(a) - getLevelScore(b)
+  );
+  return levels[candidates[0]] as T;
+}
+
+/**
+ * Level of a set of classes from the breakdown of a result, or null when the
+ * breakdown doesn't cover all of them
+ */
+function getBreakdownLevel(
+  result: PerformanceResult,
+  performanceClasses: PerformanceClass[]
+): PerformanceLevel | null {
+  const weightedLevels: { level: PerformanceLevel; weight: number }[] = [];
+  for (const performanceClass of performanceClasses) {
+    const classBreakdown = result.breakdown[performanceClass];
+    if (!classBreakdown) {
+      return null;
+    }
+    weightedLevels.push({
+      level: classBreakdown.level,
+      weight: classBreakdown.weight ?? 1,
+    });
+  }
+  return weightedLevels.length > 0
+    ? combineLevels(weightedLevels, getScoringStrategy())
+    : null;
+}
+
+function isSameSettings(a: object | null, b: object): boolean {
+  if (!a) {
+    return false;
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return Object.keys(right).every((key) => left[key] === right[key]);
+}
+
+/**
+ * Create an adaptive policy mapping performance levels to app settings.
+ *
+ * Each setting maps levels to values, e.g. `{ EXCELLENT: 'hd', LOW: 'sd' }`.
+ * A setting can instead be driven by specific classes with
+ * `{ levels: { ... }, performanceClasses: [PerformanceClass.NETWORK] }`. Their
+ * level is taken from the breakdown of the result when it covers them, and
+ * otherwise `resolve` queries those classes separately.
+ */
+export function createPerformancePolicy<D extends PolicyDefinition>(
+  definition: D
+): PerformancePolicy<D> {
+  const settingNames = Object.keys(definition) as (keyof D & string)[];
+  // Distinct class sets of the class rules, by key
+  const ruleClasses: Map<string, PerformanceClass[]> = new Map();
+  settingNames.forEach((name) => {
+    const rule = definition[name];
+    if (isClassPolicyRule(rule)) {
+      ruleClasses.set(getClassesKey(rule.performanceClasses), [
+        ...rule.performanceClasses,
+      ]);
+    }
+  });
+
+  const evaluateLevels = (
+    input: PerformanceResult | PerformanceLevel,
+    classLevels: Map<string, PerformanceLevel>
+  ): PolicySettings<D> => {
+    const defaultLevel = typeof input === 'string' ? input : input.level;
+    const settings = {} as Record<string, unknown>;
+    settingNames.forEach((name) => {
+      const rule = definition[name];
+      if (isClassPolicyRule(rule)) {
+        const level =
+          classLevels.get(getClassesKey(rule.performanceClasses)) ||
+          (typeof input !== 'string' &&
+            getBreakdownLevel(input, rule.performanceClasses)) ||
+          defaultLevel;
+        settings[name] = pickLevelValue(rule.levels, level);
+      } else {
+        settings[name] = pickLevelValue(rule, defaultLevel);
+      }
+    });
+    return settings as PolicySettings<D>;
+  };
+
+  /**
+   * Query the level of the class rules not covered by the breakdown of the
+   * queried result
+   */
+  const resolveClassLevels = async (
+    queriedResult: PerformanceResult
+  ): Promise<Map<string, PerformanceLevel>> => {
+    const classLevels: Map<string, PerformanceLevel> = new Map();
+    const requests = Array.from(ruleClasses.entries()).filter(
+      ([, classes]) => getBreakdownLevel(queriedResult, classes) === null
+    );
+
+    await Promise.all(
+      requests.map(async ([key, classes]) => {
+        const result = await getPerformanceLevel(...classes);
+        classLevels.set(key, result.level);
+      })
+    );
+    return classLevels;
+  };
+
+  const evaluate = (
+    input: PerformanceResult | PerformanceLevel
+  ): PolicySettings<D> => evaluateLevels(input, new Map());
+
+  return {
+    evaluate,
+
+    async resolve(...performanceClasses) {
+      const result = await getPerformanceLevel(...performanceClasses);
+      return evaluateLevels(result, await resolveClassLevels(result));
+    },
+
+    async resolveWeighted(weightedClasses) {
+      const result = await getWeightedPerformanceLevel(weightedClasses);
+      return evaluateLevels(result, await resolveClassLevels(result));
+    },
+
+    watch(monitoringId, listener, options) {
+      // The overall level and the level of each class set of the class rules
+      // change independently, so each goes through its own detector
+      const detectLevelChange = createLevelChangeDetector(options);
+      const classDetectors: Map<string, LevelChangeDetector> = new Map();
+      const classLevels: Map<string, PerformanceLevel> = new Map();
+      let level: PerformanceLevel | null = null;
+      let lastSettings: PolicySettings<D> | null = null;
+
+      return addPerformanceListener(monitoringId, (result) => {
+        let changed = false;
+        const event = detectLevelChange(result);
+        if (event) {
+          level = event.level;
+          changed = true;
+        }
+
+        ruleClasses.forEach((classes, key) => {
+          const breakdownLevel = getBreakdownLevel(result, classes);
+          if (breakdownLevel === null) {
+            return;
+          }
+          let detectClassLevelChange = classDetectors.get(key);
+          if (!detectClassLevelChange) {
+            detectClassLevelChange = createLevelChangeDetector(options);
+            classDetectors.set(key, detectClassLevelChange);
+          }
+          const classEvent = detectClassLevelChange({
+            ...result,
+            level: breakdownLevel,
+          });
+          if (classEvent) {
+            classLevels.set(key, classEvent.level);
+            changed = true;
+          }
+        });
+
+        if (!changed || level === null) {
+          return;
+        }
+        const settings = evaluateLevels(level, classLevels);
+        if (!isSameSettings(lastSettings, settings)) {
+          lastSettings = settings;
+          listener(settings, result);
+        }
+      });
+    },
+  };
+}
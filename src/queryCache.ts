@@ -0,0 +1,279 @@
+import type {
+  ClassBreakdown,
+  DeviceMetrics,
+  DroidDexBackend,
+  DroidDexSubscription,
+  PerformanceClass,
+  PerformanceResult,
+  QueryOptions,
+} from './types';
+import { getBackend } from './native';
+import { subscribeToPerformanceEvents } from './events';
+import { METRICS_SECTIONS } from './thresholds';
+import { combineLevels } from './levels';
+import { getScoringStrategy } from './scoring';
+
+interface CachedResult {
+  result: PerformanceResult;
+  /** Timestamp of the result, i.e. when it was measured */
+  cachedAt: number;
+}
+
+let defaultMaxAgeMs = 0;
+const cachedResults: Map<string, CachedResult> = new Map();
+const inFlightQueries: Map<string, Promise<PerformanceResult>> = new Map();
+// Bumped when cached results are dropped, so that queries in flight at that
+// time don't store theirs
+let cacheGeneration = 0;
+let cacheBackend: DroidDexBackend | null = null;
+let monitorSubscription: DroidDexSubscription | null = null;
+
+/**
+ * Set the age up to which results are reused, from the `maxAgeMs` config
+ * option
+ */
+export function setDefaultMaxAge(maxAgeMs: number | undefined): void {
+  defaultMaxAgeMs = maxAgeMs ?? 0;
+}
+
+function getUniqueClasses(
+  performanceClasses: PerformanceClass[]
+): PerformanceClass[] {
+  return performanceClasses.filter(
+    (item, index) => performanceClasses.indexOf(item) === index
+  );
+}
+
+function getClassesKey(performanceClasses: PerformanceClass[]): string {
+  return getUniqueClasses(performanceClasses).sort().join(',');
+}
+
+// Results are plain JSON data (see recordings), so every caller gets its own
+// copy to mutate
+function copyResult(result: PerformanceResult): PerformanceResult {
+  return JSON.parse(JSON.stringify(result));
+}
+
+/**
+ * Cache the results of every monitor under their classes. The level of
+ * weighted results depends on the weights, so only their breakdown is used.
+ * Replayed results don't describe the device now and are left out.
+ */
+function storeMonitorResult(result: PerformanceResult): void {
+  if (result.replayed) {
+    return;
+  }
+  const key = getClassesKey([
+    ...result.supportedClasses,
+    ...result.unsupportedClasses,
+  ]);
+  cachedResults.set(result.contributions ? `weighted:${key}` : key, {
+    result: copyResult(result),
+    cachedAt: result.timestamp,
+  });
+}
+
+/**
+ * Drop the cached results and stop sharing the queries in flight
+ */
+function dropResults(): void {
+  cachedResults.clear();
+  inFlightQueries.clear();
+  cacheGeneration += 1;
+}
+
+/**
+ * Drop the results of another backend, e.g. after setBackend in tests
+ */
+function syncBackend(): void {
+  const backend = getBackend();
+  if (backend !== cacheBackend) {
+    dropResults();
+    monitorSubscription?.remove();
+    monitorSubscription = null;
+    cacheBackend = backend;
+  }
+}
+
+function toQueryResult(result: PerformanceResult): PerformanceResult {
+  const copy = copyResult(result);
+  delete copy.monitoringId;
+  return copy;
+}
+
+/**
+ * Result of some of the classes of a result covering them, built from its
+ * breakdown. Their levels are combined with the scoring strategy like in JS
+ * rendering results, so with the weighted mean strategy the level can differ
+ * from the one the native side rates for the classes together. Returns null
+ * when a class is missing or none is supported.
+ */
+function extractClassesResult(
+  result: PerformanceResult,
+  performanceClasses: PerformanceClass[]
+): PerformanceResult | null {
+  const supportedClasses: PerformanceClass[] = [];
+  const unsupportedClasses: PerformanceClass[] = [];
+  const breakdown: Partial<Record<PerformanceClass, ClassBreakdown>> = {};
+  const metrics: Record<string, unknown> = {};
+
+  for (const performanceClass of getUniqueClasses(performanceClasses)) {
+    const classBreakdown = result.breakdown[performanceClass];
+    if (classBreakdown) {
+      supportedClasses.push(performanceClass);
+      breakdown[performanceClass] = {
+        level: classBreakdown.level,
+        metrics: classBreakdown.metrics,
+      };
+      if (classBreakdown.metrics) {
+        metrics[METRICS_SECTIONS[performanceClass]] = classBreakdown.metrics;
+      }
+    } else if (result.unsupportedClasses.indexOf(performanceClass) !== -1) {
+      unsupportedClasses.push(performanceClass);
+    } else {
+      return null;
+    }
+  }
+  if (supportedClasses.length === 0) {
+    return null;
+  }
+
+  return copyResult({
+    level: combineLevels(
+      supportedClasses.map((performanceClass) => ({
+        level: (breakdown[performanceClass] as ClassBreakdown).level,
+        weight: 1,
+      })),
+      getScoringStrategy()
+    ),
+    metrics: metrics as DeviceMetrics,
+    timestamp: result.timestamp,
+    supportedClasses,
+    unsupportedClasses,
+    breakdown,
+  });
+}
+
+/**
+ * A result of the classes no older than maxAgeMs: one of the same classes,
+ * or else one built from the breakdown of the newest result covering them
+ */
+function findCachedResult(
+  performanceClasses: PerformanceClass[],
+  maxAgeMs: number
+): PerformanceResult | null {
+  const now = Date.now();
+  const isFresh = (cached: CachedResult | undefined): cached is CachedResult =>
+    cached !== undefined && now - cached.cachedAt <= maxAgeMs;
+
+  const exact = cachedResults.get(getClassesKey(performanceClasses));
+  if (isFresh(exact)) {
+    return toQueryResult(exact.result);
+  }
+
+  let newest: PerformanceResult | null = null;
+  let newestCachedAt = -Infinity;
+  cachedResults.forEach((cached) => {
+    if (!isFresh(cached) || cached.cachedAt <= newestCachedAt) {
+      return;
+    }
+    const classesResult = extractClassesResult(
+      cached.result,
+      performanceClasses
+    );
+    if (classesResult) {
+      newest = classesResult;
+      newestCachedAt = cached.cachedAt;
+    }
+  });
+  return newest;
+}
+
+/**
+ * Cache the results of the active monitors, called when a monitor starts so
+ * that results arriving before the first query are reused too
+ */
+export function watchMonitorResults(): void {
+  syncBackend();
+  if (!monitorSubscription) {
+    monitorSubscription = subscribeToPerformanceEvents(
+      null,
+      storeMonitorResult
+    );
+  }
+}
+
+/**
+ * Stop caching monitor results once no monitor is left
+ */
+export function unwatchMonitorResults(): void {
+  monitorSubscription?.remove();
+  monitorSubscription = null;
+}
+
+/**
+ * Run a query of a class set, sharing an identical query in flight and, when
+ * the options allow it, reusing a recent result of a query or a monitor
+ * covering the classes
+ */
+export function queryWithCache(
+  performanceClasses: PerformanceClass[],
+  options: QueryOptions,
+  query: () => Promise<PerformanceResult>
+): Promise<PerformanceResult> {
+  syncBackend();
+  const maxAgeMs = options.maxAgeMs ?? defaultMaxAgeMs;
+  const key = getClassesKey(performanceClasses);
+
+  if (!options.fresh) {
+    if (maxAgeMs > 0) {
+      const cached = findCachedResult(performanceClasses, maxAgeMs);
+      if (cached) {
+        return Promise.resolve(cached);
+      }
+    }
+    const inFlight = inFlightQueries.get(key);
+    if (inFlight) {
+      return inFlight.then(copyResult);
+    }
+  }
+
+  const generation = cacheGeneration;
+  const pending = query().then(
+    (result) => {
+      if (inFlightQueries.get(key) === pending) {
+        inFlightQueries.delete(key);
+      }
+      if (generation === cacheGeneration) {
+        cachedResults.set(key, {
+          result: copyResult(result),
+          cachedAt: result.timestamp,
+        });
+      }
+      return result;
+    },
+    (error) => {
+      if (inFlightQueries.get(key) === pending) {
+        inFlightQueries.delete(key);
+      }
+      throw error;
+    }
+  );
+  inFlightQueries.set(key, pending);
+  return pending.then(copyResult);
+}
+
+/**
+ * Forget every cached result, so the next queries reach the native side
+ */
+export function clearQueryCache(): void {
+  cachedResults.clear();
+}
+
+/**
+ * Drop the results rated under the previous configuration, including those
+ * of the queries in flight, when initialize applies a new one
+ */
+export function resetQueryCache(): void {
+  dropResults();
+}
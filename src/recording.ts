@@ -0,0 +1,258 @@
+import { emitReplayedResult, getPlatformInfo } from './core';
+import type {
+  DroidDexSubscription,
+  PerformanceLevel,
+  PerformanceRecording,
+  PerformanceResult,
+  PlatformInfo,
+  RecordedLevelTransition,
+  RecordedPerformanceEvent,
+  RecordingOptions,
+  RecordingReplay,
+  ReplayOptions,
+} from './types';
+import { DroidDexArgumentError, isDroidDexError } from './errors';
+import type { DroidDexValidationError } from './errors';
+import { subscribeToPerformanceEvents } from './events';
+import { validatePerformanceResult } from './validation';
+
+/**
+ * Format version written to recordings and accepted by replayRecording
+ */
+export const RECORDING_FORMAT_VERSION = 1;
+
+const DEFAULT_MAX_EVENTS = 10000;
+
+interface ActiveRecording {
+  startedAt: number;
+  platformInfo: Promise<PlatformInfo | null>;
+  events: RecordedPerformanceEvent[];
+  transitions: RecordedLevelTransition[];
+  /** Last recorded level of each monitor, to detect transitions */
+  lastLevels: Map<string, PerformanceLevel>;
+  subscriptions: DroidDexSubscription[];
+}
+
+let activeRecording: ActiveRecording | null = null;
+
+/**
+ * Start recording the performance events of every monitor (or of the given
+ * monitors) along with the platform info and level transitions. Only one
+ * recording runs at a time: returns false when one is already running.
+ * Throws a DroidDexArgumentError when maxEvents is not an integer >= 1.
+ */
+export function startRecording(options: RecordingOptions = {}): boolean {
+  const { maxEvents = DEFAULT_MAX_EVENTS } = options || {};
+  if (
+    typeof maxEvents !== 'number' ||
+    !Number.isInteger(maxEvents) ||
+    maxEvents < 1
+  ) {
+    throw new DroidDexArgumentError(
+      'options.maxEvents',
+      `options.maxEvents must be an integer >= 1, got ${maxEvents}`
+    );
+  }
+  if (activeRecording) {
+    return false;
+  }
+
+  const recording: ActiveRecording = {
+    startedAt: Date.now(),
+    platformInfo: getPlatformInfo().catch(() => null),
+    events: [],
+    transitions: [],
+    lastLevels: new Map(),
+    subscriptions: [],
+  };
+
+  const recordResult = (result: PerformanceResult) => {
+    // Don't record a replay into the recording being made
+    if (result.replayed) {
+      return;
+    }
+    const offsetMs = Date.now() - recording.startedAt;
+    recording.events.push({ offsetMs, result });
+    if (recording.events.length > maxEvents) {
+      recording.events.shift();
+    }
+
+    const { monitoringId, level } = result;
+    if (monitoringId === undefined) {
+      return;
+    }
+    const previousLevel = recording.lastLevels.get(monitoringId);
+    if (previousLevel && previousLevel !== level) {
+      recording.transitions.push({
+        offsetMs,
+        monitoringId,
+        from: previousLevel,
+        to: level,
+      });
+    }
+    recording.lastLevels.set(monitoringId, level);
+  };
+
+  recording.subscriptions = options.monitoringIds
+    ? options.monitoringIds.map((monitoringId) =>
+        subscribeToPerformanceEvents(monitoringId, recordResult)
+      )
+    : [subscribeToPerformanceEvents(null, recordResult)];
+  activeRecording = recording;
+  return true;
+}
+
+/**
+ * Stop the running recording and return its trace, or null when no recording
+ * is running. The trace can be saved with JSON.stringify.
+ */
+export async function stopRecording(): Promise<PerformanceRecording | null> {
+  const recording = activeRecording;
+  if (!recording) {
+    return null;
+  }
+  activeRecording = null;
+  recording.subscriptions.forEach((subscription) => subscription.remove());
+  const endedAt = Date.now();
+
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    startedAt: recording.startedAt,
+    endedAt,
+    platformInfo: await recording.platformInfo,
+    events: recording.events,
+    transitions: recording.transitions,
+  };
+}
+
+export function isRecording(): boolean {
+  return activeRecording !== null;
+}
+
+/**
+ * Check the version of a recording and validate its events, returning them
+ * ordered by time
+ */
+function validateRecording(
+  recording: PerformanceRecording
+): RecordedPerformanceEvent[] {
+  if (!recording || recording.version !== RECORDING_FORMAT_VERSION) {
+    throw new DroidDexArgumentError(
+      'recording.version',
+      `Unsupported recording version ${
+        recording && recording.version
+      }, expected ${RECORDING_FORMAT_VERSION}`
+    );
+  }
+  if (!Array.isArray(recording.events)) {
+    throw new DroidDexArgumentError(
+      'recording.events',
+      'recording.events must be an array'
+    );
+  }
+
+  recording.events.forEach((event, index) => {
+    const path = `recording.events[${index}]`;
+    const offsetMs = event && event.offsetMs;
+    if (typeof offsetMs !== 'number' || !isFinite(offsetMs) || offsetMs < 0) {
+      throw new DroidDexArgumentError(
+        `${path}.offsetMs`,
+        `${path}.offsetMs must be a finite number >= 0, got ${offsetMs}`
+      );
+    }
+    try {
+      validatePerformanceResult(event.result);
+    } catch (error) {
+      if (!isDroidDexError(error, 'INVALID_PAYLOAD')) {
+        throw error;
+      }
+      const fieldPath = (error as DroidDexValidationError).path;
+      throw new DroidDexArgumentError(
+        fieldPath === 'result'
+          ? `${path}.result`
+          : `${path}.result.${fieldPath}`,
+        `Invalid event in ${path}: ${error.message}`
+      );
+    }
+  });
+  return [...recording.events].sort((a, b) => a.offsetMs - b.offsetMs);
+}
+
+/**
+ * Replay the events of a recording under `monitoringId`, reaching its
+ * performance listeners (and the global listeners) while keeping the relative
+ * timing scaled by `speed`. Timestamps are rewritten to the replay time and
+ * results are tagged `replayed`, so the query cache, telemetry reporters and
+ * recordings ignore them. Throws a DroidDexArgumentError for invalid options,
+ * unsupported versions and invalid events.
+ */
+export function replayRecording(
+  recording: PerformanceRecording,
+  options: ReplayOptions
+): RecordingReplay {
+  const { speed = 1, monitoringId, recordedMonitoringId } = options || {};
+  if (typeof monitoringId !== 'string' || monitoringId === '') {
+    throw new DroidDexArgumentError(
+      'options.monitoringId',
+      `options.monitoringId must be a non-empty string, got ${monitoringId}`
+    );
+  }
+  if (typeof speed !== 'number' || !(speed > 0)) {
+    throw new DroidDexArgumentError(
+      'options.speed',
+      `options.speed must be a number > 0, got ${speed}`
+    );
+  }
+  const events = validateRecording(recording).filter(
+    ({ result }) =>
+      recordedMonitoringId === undefined ||
+      result.monitoringId === recordedMonitoringId
+  );
+
+  let position = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let settle: (completed: boolean) => void = () => {};
+  const finished = new Promise<boolean>((resolve) => {
+    settle = resolve;
+  });
+
+  const emitDueEvents = () => {
+    timer = null;
+    const offsetMs = events[position].offsetMs;
+    // Events recorded at the same time are emitted together
+    while (position < events.length && events[position].offsetMs === offsetMs) {
+      const { result } = events[position++];
+      emitReplayedResult({
+        ...result,
+        timestamp: Date.now(),
+        monitoringId,
+        replayed: true,
+      });
+    }
+    if (position < events.length) {
+      timer = setTimeout(
+        emitDueEvents,
+        (events[position].offsetMs - offsetMs) / speed
+      );
+    } else {
+      settle(true);
+    }
+  };
+
+  if (events.length > 0) {
+    timer = setTimeout(emitDueEvents, events[0].offsetMs / speed);
+  } else {
+    settle(true);
+  }
+
+  return {
+    finished,
+    stop() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+        settle(false);
+      }
+    },
+  };
+}
@@ -0,0 +1,267 @@
+import { PerformanceClass, PerformanceLevel } from './types';
+import type { PerformanceResult, RenderingMetrics } from './types';
+import { combineLevels } from './levels';
+import { getScoringStrategy, rateWithThresholds } from './scoring';
+
+const FRAME_INTERVAL_MS = 1000 / 60;
+
+/**
+ * Frame gaps above this are treated as the app being paused (e.g. in
+ * background) rather than as dropped frames
+ */
+const MAX_FRAME_GAP_MS = 1000;
+
+const LAG_PROBE_INTERVAL_MS = 50;
+
+/**
+ * Rolling window the sampler keeps, and duration of a one-off measurement
+ */
+const SAMPLE_WINDOW_MS = 1000;
+
+/**
+ * Worst dropped frame rate and event loop lag (ms) still rated at each level
+ */
+const RENDERING_THRESHOLDS = [
+  { level: PerformanceLevel.EXCELLENT, droppedFrameRate: 0.05, lagMs: 16 },
+  { level: PerformanceLevel.HIGH, droppedFrameRate: 0.15, lagMs: 50 },
+  { level: PerformanceLevel.AVERAGE, droppedFrameRate: 0.3, lagMs: 100 },
+];
+
+interface TimedValue {
+  timestamp: number;
+  value: number;
+}
+
+/**
+ * Weight of each requested class, used to mix the rendering level with the
+ * level of the native classes
+ */
+export type ClassWeights = Partial<Record<PerformanceClass, number>>;
+
+let samplerUsers = 0;
+let samplerStartedAt = 0;
+let frameGaps: TimedValue[] = [];
+let lagSamples: TimedValue[] = [];
+let lastFrameTime: number | null = null;
+let frameRequest: number | null = null;
+let lagTimer: ReturnType<typeof setTimeout> | null = null;
+
+const renderingMonitors: Map<
+  string,
+  { weights: ClassWeights; release: () => void }
+> = new Map();
+
+function pruneSamples(samples: TimedValue[]): TimedValue[] {
+  const cutoff = Date.now() - SAMPLE_WINDOW_MS;
+  return samples.filter((sample) => sample.timestamp >= cutoff);
+}
+
+function onFrame(time: number): void {
+  if (lastFrameTime !== null && time - lastFrameTime <= MAX_FRAME_GAP_MS) {
+    frameGaps.push({ timestamp: Date.now(), value: time - lastFrameTime });
+    frameGaps = pruneSamples(frameGaps);
+  }
+  lastFrameTime = time;
+  frameRequest = requestAnimationFrame(onFrame);
+}
+
+function probeLag(): void {
+  const scheduledAt = Date.now();
+  lagTimer = setTimeout(() => {
+    const now = Date.now();
+    lagSamples.push({
+      timestamp: now,
+      value: Math.max(0, now - scheduledAt - LAG_PROBE_INTERVAL_MS),
+    });
+    lagSamples = pruneSamples(lagSamples);
+    probeLag();
+  }, LAG_PROBE_INTERVAL_MS);
+}
+
+/**
+ * Start sampling frames and event loop lag until the returned function is
+ * called. The sampler is shared and runs while it has at least one user.
+ */
+export function acquireRenderingSampler(): () => void {
+  if (samplerUsers === 0) {
+    samplerStartedAt = Date.now();
+    lastFrameTime = null;
+    frameGaps = [];
+    lagSamples = [];
+    if (typeof requestAnimationFrame === 'function') {
+      frameRequest = requestAnimationFrame(onFrame);
+    }
+    probeLag();
+  }
+  samplerUsers++;
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    samplerUsers--;
+    if (samplerUsers > 0) {
+      return;
+    }
+    if (frameRequest !== null) {
+      cancelAnimationFrame(frameRequest);
+      frameRequest = null;
+    }
+    if (lagTimer !== null) {
+      clearTimeout(lagTimer);
+      lagTimer = null;
+    }
+  };
+}
+
+/**
+ * Rendering metrics over the samples collected in the last second
+ */
+export function getRenderingMetrics(): RenderingMetrics {
+  const gaps = pruneSamples(frameGaps);
+  const lags = pruneSamples(lagSamples);
+
+  const elapsedMs = gaps.reduce((sum, gap) => sum + gap.value, 0);
+  const droppedFrames = gaps.reduce(
+    (sum, gap) =>
+      sum + Math.max(0, Math.round(gap.value / FRAME_INTERVAL_MS) - 1),
+    0
+  );
+
+  return {
+    fps: gaps.length > 0 ? (gaps.length * 1000) / elapsedMs : null,
+    droppedFrameRate:
+      gaps.length > 0 ? droppedFrames / (droppedFrames + gaps.length) : null,
+    eventLoopLag:
+      lags.length > 0
+        ? lags.reduce((sum, lag) => sum + lag.value, 0) / lags.length
+        : 0,
+    maxEventLoopLag: lags.reduce((max, lag) => Math.max(max, lag.value), 0),
+  };
+}
+
+/**
+ * Measure rendering metrics, reusing the running sampler when it already
+ * covers a full window, otherwise sampling for one window
+ */
+export function measureRendering(): Promise<RenderingMetrics> {
+  if (samplerUsers > 0 && Date.now() - samplerStartedAt >= SAMPLE_WINDOW_MS) {
+    return Promise.resolve(getRenderingMetrics());
+  }
+
+  const release = acquireRenderingSampler();
+  return new Promise((resolve) =>
+    setTimeout(() => {
+      const metrics = getRenderingMetrics();
+      release();
+      resolve(metrics);
+    }, SAMPLE_WINDOW_MS)
+  );
+}
+
+/**
+ * Rate rendering metrics with the configured RENDERING thresholds, or by
+ * default the worse of frame drops and event loop lag
+ */
+export function getRenderingLevel(metrics: RenderingMetrics): PerformanceLevel {
+  const configuredLevel = rateWithThresholds(PerformanceClass.RENDERING, {
+    rendering: metrics,
+  });
+  if (configuredLevel) {
+    return configuredLevel;
+  }
+
+  const droppedFrameRate = metrics.droppedFrameRate ?? 0;
+  const threshold = RENDERING_THRESHOLDS.find(
+    ({ droppedFrameRate: maxDropped, lagMs }) =>
+      droppedFrameRate <= maxDropped && metrics.eventLoopLag <= lagMs
+  );
+  return threshold ? threshold.level : PerformanceLevel.LOW;
+}
+
+/**
+ * Add rendering metrics to a result of the native classes. The native level
+ * and the rendering level are combined with the configured scoring strategy.
+ */
+export function mergeRenderingResult(
+  result: PerformanceResult,
+  metrics: RenderingMetrics,
+  weights: ClassWeights
+): PerformanceResult {
+  const nativeWeight = result.supportedClasses.reduce(
+    (sum, performanceClass) => sum + (weights[performanceClass] ?? 1),
+    0
+  );
+  const renderingLevel = getRenderingLevel(metrics);
+  const level = combineLevels(
+    [
+      ...(result.supportedClasses.length > 0
+        ? [{ level: result.level, weight: nativeWeight }]
+        : []),
+      {
+        level: renderingLevel,
+        weight: weights[PerformanceClass.RENDERING] ?? 1,
+      },
+    ],
+    getScoringStrategy()
+  );
+
+  return {
+    ...result,
+    level,
+    metrics: { ...result.metrics, rendering: metrics },
+    supportedClasses: [...result.supportedClasses, PerformanceClass.RENDERING],
+    unsupportedClasses: result.unsupportedClasses.filter(
+      (performanceClass) => performanceClass !== PerformanceClass.RENDERING
+    ),
+    breakdown: {
+      ...result.breakdown,
+      [PerformanceClass.RENDERING]: { level: renderingLevel, metrics },
+    },
+  };
+}
+
+/**
+ * Keep sampling for a monitor including the RENDERING class, so its results
+ * can be completed by applyRenderingMonitor
+ */
+export function registerRenderingMonitor(
+  monitoringId: string,
+  weights: ClassWeights
+): void {
+  unregisterRenderingMonitor(monitoringId);
+  renderingMonitors.set(monitoringId, {
+    weights,
+    release: acquireRenderingSampler(),
+  });
+}
+
+export function unregisterRenderingMonitor(monitoringId: string): void {
+  const monitor = renderingMonitors.get(monitoringId);
+  if (monitor) {
+    monitor.release();
+    renderingMonitors.delete(monitoringId);
+  }
+}
+
+export function unregisterAllRenderingMonitors(): void {
+  Array.from(renderingMonitors.keys()).forEach(unregisterRenderingMonitor);
+}
+
+/**
+ * Complete a monitoring result with the rendering metrics when its monitor
+ * includes the RENDERING class
+ */
+export function applyRenderingMonitor(
+  result: PerformanceResult
+): PerformanceResult {
+  const monitor =
+    result.monitoringId !== undefined
+      ? renderingMonitors.get(result.monitoringId)
+      : undefined;
+  return monitor
+    ? mergeRenderingResult(result, getRenderingMetrics(), monitor.weights)
+    : result;
+}
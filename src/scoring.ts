@@ -0,0 +1,60 @@
+import { PerformanceLevel } from './types';
+import type {
+  DeviceMetrics,
+  DroidDexConfig,
+  PerformanceClass,
+  PerformanceThresholds,
+  ScoringStrategy,
+} from './types';
+import { METRICS_SECTIONS } from './thresholds';
+
+const THRESHOLD_LEVELS = [
+  PerformanceLevel.EXCELLENT,
+  PerformanceLevel.HIGH,
+  PerformanceLevel.AVERAGE,
+] as const;
+
+let thresholds: PerformanceThresholds = {};
+let scoringStrategy: ScoringStrategy = 'weighted-mean';
+
+/**
+ * Apply the thresholds and scoring strategy of the config passed to
+ * initialize, for the classes measured in JS. The native side applies the
+ * same config to the native classes.
+ */
+export function setScoringConfig(config: DroidDexConfig): void {
+  thresholds = config.thresholds || {};
+  scoringStrategy = config.scoring || 'weighted-mean';
+}
+
+export function getScoringStrategy(): ScoringStrategy {
+  return scoringStrategy;
+}
+
+/**
+ * Rate a class with its configured thresholds, or null when it has none or
+ * its metric is unavailable
+ */
+export function rateWithThresholds(
+  performanceClass: PerformanceClass,
+  metrics: DeviceMetrics
+): PerformanceLevel | null {
+  const table = thresholds[performanceClass];
+  const section = metrics[METRICS_SECTIONS[performanceClass]];
+  if (!table || !section) {
+    return null;
+  }
+  const value = (section as unknown as Record<string, unknown>)[table.metric];
+  if (typeof value !== 'number') {
+    return null;
+  }
+
+  const level = THRESHOLD_LEVELS.find((candidate) => {
+    const cutoff = table.levels[candidate];
+    if (cutoff === undefined) {
+      return false;
+    }
+    return table.lowerIsBetter ? value <= cutoff : value >= cutoff;
+  });
+  return level || PerformanceLevel.LOW;
+}
@@ -0,0 +1,607 @@
+import { PerformanceClass, PerformanceLevel } from './types';
+import type {
+  ClassBreakdown,
+  DeviceMetrics,
+  PerformanceResult,
+  SimulatorBackend,
+  SimulatorOptions,
+  SimulatorProfile,
+  SimulatorProfileName,
+} from './types';
+import {
+  ERROR_EVENT,
+  LIFECYCLE_EVENT,
+  MEMORY_PRESSURE_EVENT,
+  PERFORMANCE_EVENT,
+} from './native';
+import { combineLevels } from './levels';
+import { getScoringStrategy } from './scoring';
+
+/**
+ * Built-in randomized device profiles. Sizes are in bytes, CPU frequency in
+ * MHz, download speed in kbps and signal strength in dBm.
+ */
+export const SIMULATOR_PROFILES: Record<
+  SimulatorProfileName,
+  SimulatorProfile
+> = {
+  'flagship': {
+    levelWeights: { EXCELLENT: 6, HIGH: 3, AVERAGE: 1 },
+    metrics: {
+      cpu: { totalRam: 12e9, coreCount: 8, cpuFrequency: 3200 },
+      memory: { heapLimit: 512e6, heapRemaining: 400e6, availableRam: 6e9 },
+      network: {
+        bandwidthStrength: 'EXCELLENT',
+        downloadSpeed: 50000,
+        signalStrength: -60,
+      },
+      storage: { availableStorage: 128e9, totalStorage: 256e9 },
+      battery: { percentageRemaining: 85, isCharging: false },
+      thermal: { thermalStatus: 'NONE', thermalHeadroom: 0.3 },
+      power: { isPowerSaveMode: false, isDeviceIdleMode: false },
+    },
+  },
+  'mid-range': {
+    levelWeights: { HIGH: 3, AVERAGE: 5, LOW: 1 },
+    metrics: {
+      cpu: { totalRam: 4e9, coreCount: 8, cpuFrequency: 2000 },
+      memory: { heapLimit: 256e6, heapRemaining: 150e6, availableRam: 1.5e9 },
+      network: {
+        bandwidthStrength: 'GOOD',
+        downloadSpeed: 8000,
+        signalStrength: -80,
+      },
+      storage: { availableStorage: 20e9, totalStorage: 64e9 },
+      battery: { percentageRemaining: 60, isCharging: false },
+      thermal: { thermalStatus: 'LIGHT', thermalHeadroom: 0.6 },
+      power: { isPowerSaveMode: false, isDeviceIdleMode: false },
+    },
+  },
+  'low-end-2g': {
+    levelWeights: { AVERAGE: 2, LOW: 8 },
+    metrics: {
+      cpu: { totalRam: 1e9, coreCount: 4, cpuFrequency: 1300 },
+      memory: { heapLimit: 128e6, heapRemaining: 20e6, availableRam: 150e6 },
+      network: {
+        bandwidthStrength: 'POOR',
+        downloadSpeed: 50,
+        signalStrength: -105,
+      },
+      storage: { availableStorage: 500e6, totalStorage: 16e9 },
+      battery: { percentageRemaining: 40, isCharging: false },
+      thermal: { thermalStatus: 'MODERATE', thermalHeadroom: 0.85 },
+      power: { isPowerSaveMode: false, isDeviceIdleMode: false },
+    },
+  },
+  'low-battery': {
+    levelWeights: { HIGH: 1, AVERAGE: 4, LOW: 5 },
+    metrics: {
+      cpu: { totalRam: 4e9, coreCount: 8, cpuFrequency: 1400 },
+      memory: { heapLimit: 256e6, heapRemaining: 150e6, availableRam: 1.5e9 },
+      network: {
+        bandwidthStrength: 'GOOD',
+        downloadSpeed: 8000,
+        signalStrength: -80,
+      },
+      storage: { availableStorage: 20e9, totalStorage: 64e9 },
+      battery: { percentageRemaining: 8, isCharging: false },
+      thermal: { thermalStatus: 'NONE', thermalHeadroom: 0.4 },
+      power: { isPowerSaveMode: true, isDeviceIdleMode: false },
+    },
+  },
+};
+
+type NativeClass = Exclude<PerformanceClass, PerformanceClass.RENDERING>;
+
+const METRICS_KEYS: Record<NativeClass, keyof SimulatorProfile['metrics']> = {
+  [PerformanceClass.CPU]: 'cpu',
+  [PerformanceClass.MEMORY]: 'memory',
+  [PerformanceClass.NETWORK]: 'network',
+  [PerformanceClass.STORAGE]: 'storage',
+  [PerformanceClass.BATTERY]: 'battery',
+  [PerformanceClass.THERMAL]: 'thermal',
+  [PerformanceClass.POWER_SAVE]: 'power',
+};
+
+const ALL_CLASSES = Object.keys(METRICS_KEYS) as NativeClass[];
+
+/**
+ * Small seedable PRNG (mulberry32) so simulated runs are reproducible
+ */
+/* eslint-disable no-bitwise */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+/* eslint-enable no-bitwise */
+
+/**
+ * Result of the requested classes from a recorded trace entry, without the
+ * monitoring ID and replay tag of the recorded session. Classes missing from
+ * the breakdown of the entry are unsupported, and the level of some of the
+ * recorded classes is combined from their breakdown.
+ */
+function narrowTraceEntry(
+  entry: PerformanceResult,
+  performanceClasses: PerformanceClass[]
+): PerformanceResult {
+  const supportedClasses: PerformanceClass[] = [];
+  const unsupportedClasses: PerformanceClass[] = [];
+  const breakdown: Partial<Record<PerformanceClass, ClassBreakdown>> = {};
+  const metrics: Record<string, unknown> = {};
+
+  performanceClasses.forEach((performanceClass) => {
+    const key = METRICS_KEYS[performanceClass as NativeClass];
+    const classMetrics = entry.metrics[key] ?? null;
+    // Like validated payloads, a single class has the level of the entry
+    const classBreakdown =
+      entry.breakdown[performanceClass] ||
+      (entry.supportedClasses.length === 1 &&
+      entry.supportedClasses[0] === performanceClass
+        ? { level: entry.level, metrics: classMetrics }
+        : undefined);
+    if (!classBreakdown) {
+      unsupportedClasses.push(performanceClass);
+      return;
+    }
+    supportedClasses.push(performanceClass);
+    breakdown[performanceClass] = {
+      level: classBreakdown.level,
+      metrics: classMetrics,
+    };
+    if (classMetrics) {
+      metrics[key] = classMetrics;
+    }
+  });
+
+  const coversEntry = entry.supportedClasses.every(
+    (performanceClass) => supportedClasses.indexOf(performanceClass) !== -1
+  );
+  return {
+    level:
+      coversEntry || supportedClasses.length === 0
+        ? entry.level
+        : combineLevels(
+            supportedClasses.map((performanceClass) => ({
+              level: (breakdown[performanceClass] as ClassBreakdown).level,
+              weight: 1,
+            })),
+            getScoringStrategy()
+          ),
+    metrics: metrics as DeviceMetrics,
+    timestamp: entry.timestamp,
+    supportedClasses,
+    unsupportedClasses,
+    breakdown,
+  };
+}
+
+interface ScriptCursor {
+  position: number;
+}
+
+interface SimulatedMonitor {
+  performanceClasses: PerformanceClass[];
+  cursor: ScriptCursor;
+  intervalMs: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Event monitors only emit when the level changed, like change callbacks */
+  changesOnly: boolean;
+  lastLevel: PerformanceLevel | null;
+  paused: boolean;
+}
+
+/**
+ * Create a deterministic backend producing simulated results, for tests and
+ * platforms without the native module. Install it with setBackend().
+ *
+ * Results come from, in order of precedence: the level forced with
+ * setLevel(), the recorded `trace`, the scripted `levels` sequence, or random
+ * levels drawn from the device `profile`.
+ */
+export function createSimulatorBackend(
+  options: SimulatorOptions = {}
+): SimulatorBackend {
+  const profile =
+    typeof options.profile === 'object'
+      ? options.profile
+      : SIMULATOR_PROFILES[options.profile || 'mid-range'];
+  const seed = options.seed ?? 1;
+  const loop = options.loop ?? true;
+  const supportedClasses = options.supportedClasses || ALL_CLASSES;
+  const listeners: Map<string, Set<(payload: unknown) => void>> = new Map();
+  const monitors: Map<string, SimulatedMonitor> = new Map();
+  // Kept by reset, like values persisted by the native module across launches
+  const storage: Map<string, string> = new Map();
+  Object.keys(options.storage || {}).forEach((key) =>
+    storage.set(key, (options.storage as Record<string, string>)[key])
+  );
+
+  let random = createRandom(seed);
+  let queryCursor: ScriptCursor = { position: 0 };
+  let monitorCount = 0;
+  let forcedLevel: PerformanceLevel | null = null;
+  const forcedClassLevels: Map<PerformanceClass, PerformanceLevel> = new Map();
+
+  const emit = (eventName: string, payload: unknown) => {
+    listeners.get(eventName)?.forEach((listener) => listener(payload));
+  };
+
+  const nextIndex = (cursor: ScriptCursor, length: number): number => {
+    const index = loop
+      ? cursor.position % length
+      : Math.min(cursor.position, length - 1);
+    cursor.position++;
+    return index;
+  };
+
+  const pickRandomLevel = (): PerformanceLevel => {
+    const levels = Object.keys(profile.levelWeights) as PerformanceLevel[];
+    const total = levels.reduce(
+      (sum, level) => sum + (profile.levelWeights[level] || 0),
+      0
+    );
+    let remaining = random() * total;
+    for (const level of levels) {
+      remaining -= profile.levelWeights[level] || 0;
+      if (remaining < 0) {
+        return level;
+      }
+    }
+    return levels[levels.length - 1] || PerformanceLevel.AVERAGE;
+  };
+
+  const createMetrics = (performanceClasses: PerformanceClass[]) => {
+    const jitter = profile.jitter ?? 0.1;
+    const metrics: Record<string, Record<string, unknown>> = {};
+    performanceClasses.forEach((performanceClass) => {
+      const key = METRICS_KEYS[performanceClass as NativeClass];
+      const base = profile.metrics[key] as unknown as Record<string, unknown>;
+      metrics[key] = {};
+      Object.keys(base).forEach((field) => {
+        const value = base[field];
+        metrics[key][field] =
+          typeof value === 'number' && field !== 'coreCount'
+            ? value * (1 + (random() * 2 - 1) * jitter)
+            : value;
+      });
+    });
+    return metrics as DeviceMetrics;
+  };
+
+  const sample = (
+    performanceClasses: PerformanceClass[],
+    cursor: ScriptCursor
+  ): PerformanceResult => {
+    const supported = performanceClasses.filter(
+      (performanceClass) => supportedClasses.indexOf(performanceClass) !== -1
+    );
+    const unsupported = performanceClasses.filter(
+      (performanceClass) => supportedClasses.indexOf(performanceClass) === -1
+    );
+
+    if (options.trace && options.trace.length > 0) {
+      const entry = narrowTraceEntry(
+        options.trace[nextIndex(cursor, options.trace.length)],
+        performanceClasses
+      );
+      return {
+        ...entry,
+        level: forcedLevel || entry.level,
+        timestamp: Date.now(),
+      };
+    }
+
+    let level = forcedLevel;
+    if (!level && options.levels && options.levels.length > 0) {
+      level = options.levels[nextIndex(cursor, options.levels.length)];
+    }
+    const sampledLevel = level || pickRandomLevel();
+
+    // Classes share the sampled level unless forced with setClassLevel
+    const metrics = createMetrics(supported);
+    const breakdown: Partial<Record<PerformanceClass, ClassBreakdown>> = {};
+    const classLevels = supported.map((performanceClass) => {
+      const classLevel =
+        forcedClassLevels.get(performanceClass) || sampledLevel;
+      breakdown[performanceClass] = {
+        level: classLevel,
+        metrics: metrics[METRICS_KEYS[performanceClass as NativeClass]] ?? null,
+      };
+      return { level: classLevel, weight: 1 };
+    });
+    const hasForcedClass = supported.some((performanceClass) =>
+      forcedClassLevels.has(performanceClass)
+    );
+
+    return {
+      level: hasForcedClass
+        ? combineLevels(classLevels, getScoringStrategy())
+        : sampledLevel,
+      metrics,
+      timestamp: Date.now(),
+      supportedClasses: supported,
+      unsupportedClasses: unsupported,
+      breakdown,
+    };
+  };
+
+  // Like the native module, queries and monitors need a supported class
+  const rejectUnsupported = (
+    performanceClasses: PerformanceClass[]
+  ): Promise<never> | null => {
+    const hasSupportedClass = performanceClasses.some(
+      (performanceClass) => supportedClasses.indexOf(performanceClass) !== -1
+    );
+    return hasSupportedClass
+      ? null
+      : Promise.reject({
+          code: 'NO_SUPPORTED_CLASSES',
+          message:
+            'None of the requested performance classes are supported on this device',
+        });
+  };
+
+  const query = (performanceClasses: PerformanceClass[]) =>
+    rejectUnsupported(performanceClasses) ||
+    Promise.resolve(sample(performanceClasses, queryCursor));
+
+  const emitSample = (monitoringId: string, force: boolean = true) => {
+    const monitor = monitors.get(monitoringId);
+    if (!monitor) {
+      return;
+    }
+    const result = sample(monitor.performanceClasses, monitor.cursor);
+    if (force || !monitor.changesOnly || result.level !== monitor.lastLevel) {
+      monitor.lastLevel = result.level;
+      emit(PERFORMANCE_EVENT, { ...result, monitoringId });
+    }
+  };
+
+  // Like the native handler, emit a sample right away and then every
+  // intervalMs
+  const schedule = (
+    monitoringId: string,
+    monitor: SimulatedMonitor,
+    delay: number
+  ) => {
+    monitor.timer = setTimeout(() => {
+      emitSample(monitoringId, false);
+      if (monitors.get(monitoringId) === monitor && !monitor.paused) {
+        schedule(monitoringId, monitor, monitor.intervalMs);
+      }
+    }, delay);
+  };
+
+  const start = (
+    performanceClasses: PerformanceClass[],
+    intervalMs: number,
+    changesOnly: boolean = false
+  ): Promise<string> => {
+    const rejection = rejectUnsupported(performanceClasses);
+    if (rejection) {
+      return rejection;
+    }
+    monitorCount++;
+    const monitoringId = `simulator-${monitorCount}`;
+    const monitor: SimulatedMonitor = {
+      performanceClasses,
+      cursor: { position: 0 },
+      intervalMs,
+      timer: null,
+      changesOnly,
+      lastLevel: null,
+      paused: false,
+    };
+    monitors.set(monitoringId, monitor);
+    schedule(monitoringId, monitor, 0);
+    return Promise.resolve(monitoringId);
+  };
+
+  const pause = (monitoringId: string): boolean => {
+    const monitor = monitors.get(monitoringId);
+    if (!monitor) {
+      return false;
+    }
+    if (monitor.timer) {
+      clearTimeout(monitor.timer);
+      monitor.timer = null;
+    }
+    monitor.paused = true;
+    return true;
+  };
+
+  const resume = (monitoringId: string, intervalMs: number): boolean => {
+    const monitor = monitors.get(monitoringId);
+    if (!monitor) {
+      return false;
+    }
+    if (monitor.timer) {
+      clearTimeout(monitor.timer);
+    }
+    monitor.paused = false;
+    monitor.intervalMs = intervalMs;
+    schedule(monitoringId, monitor, 0);
+    return true;
+  };
+
+  const update = (
+    monitoringId: string,
+    performanceClasses: PerformanceClass[],
+    intervalMs: number
+  ): boolean => {
+    const monitor = monitors.get(monitoringId);
+    if (!monitor) {
+      return false;
+    }
+    monitor.performanceClasses = performanceClasses;
+    monitor.intervalMs = intervalMs;
+    if (!monitor.paused) {
+      if (monitor.timer) {
+        clearTimeout(monitor.timer);
+      }
+      schedule(monitoringId, monitor, 0);
+    }
+    return true;
+  };
+
+  const stop = (monitoringId: string): boolean => {
+    const monitor = monitors.get(monitoringId);
+    if (!monitor) {
+      return false;
+    }
+    if (monitor.timer) {
+      clearTimeout(monitor.timer);
+    }
+    monitors.delete(monitoringId);
+    return true;
+  };
+
+  const stopAll = () => {
+    Array.from(monitors.keys()).forEach(stop);
+  };
+
+  const platformInfo = {
+    platform: 'simulator',
+    version: 33,
+    model: 'DroidDex Simulator',
+    manufacturer: 'DroidDex',
+    supported: true,
+    droidDexInitialized: true,
+    ...options.platformInfo,
+  };
+
+  return {
+    initialize: () =>
+      Promise.resolve({
+        success: true,
+        fullFunctionality: true,
+        missingPermissions: [],
+        missingOptionalPermissions: [],
+        apiLevel:
+          typeof platformInfo.version === 'number' ? platformInfo.version : 0,
+        networkMonitoringSupported:
+          supportedClasses.indexOf(PerformanceClass.NETWORK) !== -1,
+        batteryStatsSupported:
+          supportedClasses.indexOf(PerformanceClass.BATTERY) !== -1,
+      }),
+    getPerformanceLevel: (performanceClasses) => query(performanceClasses),
+    getWeightedPerformanceLevel: (weightedClasses) =>
+      query(weightedClasses.map((wc) => wc.performanceClass)),
+    startMonitoring: (performanceClasses, intervalMs) =>
+      start(performanceClasses, intervalMs),
+    startWeightedMonitoring: (weightedClasses, intervalMs) =>
+      start(
+        weightedClasses.map((wc) => wc.performanceClass),
+        intervalMs
+      ),
+    startEventMonitoring: (performanceClasses, fallbackIntervalMs) =>
+      start(performanceClasses, fallbackIntervalMs, true),
+    pauseMonitoring: (monitoringId) => Promise.resolve(pause(monitoringId)),
+    resumeMonitoring: (monitoringId, intervalMs) =>
+      Promise.resolve(resume(monitoringId, intervalMs)),
+    updateMonitoring: (
+      monitoringId,
+      weightedClasses,
+      _weighted,
+      intervalMs
+    ) => {
+      const performanceClasses = weightedClasses.map(
+        (wc) => wc.performanceClass
+      );
+      // An unknown monitor resolves to false before its classes are checked
+      if (!monitors.has(monitoringId)) {
+        return Promise.resolve(false);
+      }
+      return (
+        rejectUnsupported(performanceClasses) ||
+        Promise.resolve(update(monitoringId, performanceClasses, intervalMs))
+      );
+    },
+    stopMonitoring: (monitoringId) => Promise.resolve(stop(monitoringId)),
+    stopAllMonitoring: () => {
+      stopAll();
+      return Promise.resolve(true);
+    },
+    getPlatformInfo: () => Promise.resolve(platformInfo),
+    getStoredValue: (key) => Promise.resolve(storage.get(key) ?? null),
+    setStoredValue: (key, value) => {
+      if (value === null) {
+        storage.delete(key);
+      } else {
+        storage.set(key, value);
+      }
+      return Promise.resolve(true);
+    },
+    addListener: (eventName, listener) => {
+      const eventListeners = listeners.get(eventName) || new Set();
+      eventListeners.add(listener);
+      listeners.set(eventName, eventListeners);
+      return {
+        remove: () => {
+          eventListeners.delete(listener);
+        },
+      };
+    },
+
+    setLevel: (level) => {
+      forcedLevel = level;
+    },
+    setClassLevel: (performanceClass, level) => {
+      if (level) {
+        forcedClassLevels.set(performanceClass, level);
+      } else {
+        forcedClassLevels.delete(performanceClass);
+      }
+    },
+    tick: (monitoringId) => {
+      if (monitoringId !== undefined) {
+        emitSample(monitoringId);
+      } else {
+        Array.from(monitors.keys())
+          .filter((id) => !monitors.get(id)?.paused)
+          .forEach((id) => emitSample(id));
+      }
+    },
+    emitError: (monitoringId, message) => {
+      const monitor = monitors.get(monitoringId);
+      emit(ERROR_EVENT, {
+        monitoringId,
+        code: 'MONITORING_ERROR',
+        message,
+        performanceClasses: monitor ? monitor.performanceClasses : [],
+      });
+    },
+    emitMemoryPressure: (level) => {
+      emit(MEMORY_PRESSURE_EVENT, {
+        level,
+        metrics: createMetrics([PerformanceClass.MEMORY]).memory,
+        timestamp: Date.now(),
+      });
+    },
+    terminate: () => {
+      Array.from(monitors.keys()).forEach((monitoringId) => {
+        stop(monitoringId);
+        emit(LIFECYCLE_EVENT, {
+          monitoringId,
+          state: 'terminated',
+          timestamp: Date.now(),
+        });
+      });
+    },
+    getActiveMonitors: () => Array.from(monitors.keys()),
+    reset: () => {
+      stopAll();
+      random = createRandom(seed);
+      queryCursor = { position: 0 };
+      forcedLevel = null;
+      forcedClassLevels.clear();
+    },
+  };
+}
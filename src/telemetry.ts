@@ -0,0 +1,470 @@
+import { getPlatformInfo } from './core';
+import type {
+  DeviceMetrics,
+  DroidDexSubscription,
+  HttpSinkOptions,
+  OpenTelemetrySinkOptions,
+  PerformanceClass,
+  PerformanceResult,
+  PlatformInfo,
+  TelemetryAttributes,
+  TelemetryBatch,
+  TelemetryMeter,
+  TelemetryReporter,
+  TelemetryReporterOptions,
+  TelemetrySink,
+} from './types';
+import { DroidDexArgumentError, DroidDexTelemetryError } from './errors';
+import { getLevelScore } from './levels';
+import { subscribeToPerformanceEvents } from './events';
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 10000;
+const DEFAULT_MAX_QUEUE_SIZE = 500;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60000;
+const DEFAULT_HTTP_TIMEOUT_MS = 10000;
+
+/**
+ * Batches waiting to be delivered to one sink, oldest first
+ */
+interface SinkQueue {
+  sink: TelemetrySink;
+  batches: TelemetryBatch[];
+  /** Consecutive failed deliveries, driving the retry delay */
+  failures: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  draining: Promise<void> | null;
+}
+
+function expectOption(
+  valid: boolean,
+  option: string,
+  expected: string,
+  value: unknown
+): void {
+  if (!valid) {
+    throw new DroidDexArgumentError(
+      `options.${option}`,
+      `options.${option} must be ${expected}, got ${value}`
+    );
+  }
+}
+
+function validateOptions(options: TelemetryReporterOptions): void {
+  expectOption(
+    Array.isArray(options.sinks) && options.sinks.length > 0,
+    'sinks',
+    'a non-empty array',
+    options.sinks
+  );
+  const { sampleRate } = options;
+  expectOption(
+    sampleRate === undefined ||
+      (typeof sampleRate === 'number' && sampleRate >= 0 && sampleRate <= 1),
+    'sampleRate',
+    'a number between 0 and 1',
+    sampleRate
+  );
+  // NaN fails every comparison, so it is rejected along with negative values
+  (['batchSize', 'maxQueueSize', 'maxAttempts'] as const).forEach((option) => {
+    const value = options[option];
+    expectOption(
+      value === undefined || (typeof value === 'number' && value >= 1),
+      option,
+      'a number >= 1',
+      value
+    );
+  });
+  expectOption(
+    options.flushIntervalMs === undefined ||
+      (typeof options.flushIntervalMs === 'number' &&
+        isFinite(options.flushIntervalMs) &&
+        options.flushIntervalMs >= 0),
+    'flushIntervalMs',
+    'a finite number >= 0',
+    options.flushIntervalMs
+  );
+  (['retryDelayMs', 'maxRetryDelayMs'] as const).forEach((option) => {
+    const value = options[option];
+    expectOption(
+      value === undefined ||
+        (typeof value === 'number' && isFinite(value) && value > 0),
+      option,
+      'a finite number > 0',
+      value
+    );
+  });
+}
+
+function countSamples(batches: TelemetryBatch[]): number {
+  return batches.reduce((sum, batch) => sum + batch.samples.length, 0);
+}
+
+/**
+ * Create a reporter batching performance samples, with the device context of
+ * getPlatformInfo, to telemetry sinks. Each sink has its own queue: a batch
+ * it fails to deliver is retried with exponential backoff while newer batches
+ * wait behind it, so samples survive while the device is offline. Queues are
+ * kept in memory only: samples still queued when the app is killed are lost.
+ */
+export function createTelemetryReporter(
+  options: TelemetryReporterOptions
+): TelemetryReporter {
+  validateOptions(options);
+  const {
+    sampleRate = 1,
+    batchSize = DEFAULT_BATCH_SIZE,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    maxQueueSize = DEFAULT_MAX_QUEUE_SIZE,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    maxAttempts = Infinity,
+    onError,
+  } = options;
+
+  const queues: SinkQueue[] = options.sinks.map((sink) => ({
+    sink,
+    batches: [],
+    failures: 0,
+    retryTimer: null,
+    draining: null,
+  }));
+  let pendingSamples: PerformanceResult[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let deviceContext: Promise<PlatformInfo | null> | null = null;
+  let stopped = false;
+
+  // Read once, and again on the next batch if it failed
+  const getDeviceContext = (): Promise<PlatformInfo | null> => {
+    if (!deviceContext) {
+      deviceContext = getPlatformInfo().catch(() => {
+        deviceContext = null;
+        return null;
+      });
+    }
+    return deviceContext;
+  };
+
+  // A throwing onError must not leave the queue of the sink stuck
+  const reportError = (error: DroidDexTelemetryError) => {
+    try {
+      onError?.(error);
+    } catch (callbackError) {
+      console.warn('DroidDex: telemetry onError callback threw', callbackError);
+    }
+  };
+
+  const scheduleRetry = (queue: SinkQueue) => {
+    const delay = Math.min(
+      retryDelayMs * Math.pow(2, queue.failures - 1),
+      maxRetryDelayMs
+    );
+    queue.retryTimer = setTimeout(() => {
+      queue.retryTimer = null;
+      drain(queue).catch(() => {});
+    }, delay);
+  };
+
+  const deliver = async (queue: SinkQueue): Promise<void> => {
+    const { sink, batches } = queue;
+    while (batches.length > 0 && !queue.retryTimer) {
+      const batch = batches[0];
+      batch.attempt++;
+      try {
+        await sink.send(batch);
+        queue.failures = 0;
+      } catch (error) {
+        queue.failures++;
+        reportError(
+          new DroidDexTelemetryError(
+            sink.name,
+            `Telemetry sink ${sink.name} failed to deliver ${
+              batch.samples.length
+            } samples: ${error instanceof Error ? error.message : error}`,
+            { cause: error }
+          )
+        );
+        if (batch.attempt < maxAttempts) {
+          if (!stopped) {
+            scheduleRetry(queue);
+          }
+          return;
+        }
+      }
+      // The batch may already have been dropped to make room for newer ones
+      const index = batches.indexOf(batch);
+      if (index !== -1) {
+        batches.splice(index, 1);
+      }
+    }
+  };
+
+  function drain(queue: SinkQueue): Promise<void> {
+    if (!queue.draining) {
+      queue.draining = deliver(queue).then(
+        () => {
+          queue.draining = null;
+        },
+        (error) => {
+          queue.draining = null;
+          throw error;
+        }
+      );
+    }
+    return queue.draining;
+  }
+
+  const enqueue = (queue: SinkQueue, batch: TelemetryBatch) => {
+    queue.batches.push(batch);
+    // Keep at least the newest batch, even when larger than the queue
+    while (
+      queue.batches.length > 1 &&
+      countSamples(queue.batches) > maxQueueSize
+    ) {
+      queue.batches.shift();
+    }
+  };
+
+  const sendPendingSamples = async (): Promise<void> => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (pendingSamples.length === 0) {
+      return;
+    }
+    const samples = pendingSamples;
+    pendingSamples = [];
+    const device = await getDeviceContext();
+    const createdAt = Date.now();
+    queues.forEach((queue) =>
+      enqueue(queue, { device, samples, createdAt, attempt: 0 })
+    );
+    await Promise.all(queues.map(drain));
+  };
+
+  // Failures are reported to onError while delivering, nobody awaits these
+  const sendInBackground = () => {
+    sendPendingSamples().catch(() => {});
+  };
+
+  const record = (result: PerformanceResult) => {
+    if (stopped || Math.random() >= sampleRate) {
+      return;
+    }
+    pendingSamples.push(result);
+    if (pendingSamples.length >= batchSize) {
+      sendInBackground();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(sendInBackground, flushIntervalMs);
+    }
+  };
+
+  const flush = async (): Promise<void> => {
+    queues.forEach((queue) => {
+      if (queue.retryTimer) {
+        clearTimeout(queue.retryTimer);
+        queue.retryTimer = null;
+      }
+    });
+    await sendPendingSamples();
+    await Promise.all(queues.map(drain));
+  };
+
+  // Results replayed from a recording are not reported as device data
+  const recordLive = (result: PerformanceResult) => {
+    if (!result.replayed) {
+      record(result);
+    }
+  };
+  const subscriptions: DroidDexSubscription[] = options.monitoringIds
+    ? options.monitoringIds.map((monitoringId) =>
+        subscribeToPerformanceEvents(monitoringId, recordLive)
+      )
+    : [subscribeToPerformanceEvents(null, recordLive)];
+
+  return {
+    record,
+    flush,
+
+    getQueueSizes() {
+      const sizes: Record<string, number> = {};
+      queues.forEach(({ sink, batches }) => {
+        sizes[sink.name] =
+          (sizes[sink.name] || 0) +
+          pendingSamples.length +
+          countSamples(batches);
+      });
+      return sizes;
+    },
+
+    async stop() {
+      if (stopped) {
+        return;
+      }
+      subscriptions.forEach((subscription) => subscription.remove());
+      await flush();
+      stopped = true;
+      queues.forEach((queue) => {
+        if (queue.retryTimer) {
+          clearTimeout(queue.retryTimer);
+          queue.retryTimer = null;
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Sink logging every batch with console.log, for development
+ */
+export function createConsoleSink(): TelemetrySink {
+  return {
+    name: 'console',
+    send(batch) {
+      console.log(`DroidDex telemetry: ${batch.samples.length} samples`, batch);
+    },
+  };
+}
+
+/**
+ * Sink handing every batch to a callback, e.g. an analytics SDK. The batch is
+ * retried when the callback throws or rejects.
+ */
+export function createCallbackSink(
+  callback: (batch: TelemetryBatch) => void | Promise<void>,
+  name: string = 'callback'
+): TelemetrySink {
+  return { name, send: callback };
+}
+
+/**
+ * Sink sending every batch to an HTTP endpoint. Network errors, timeouts and
+ * non-2xx responses are retried.
+ */
+export function createHttpSink(options: HttpSinkOptions): TelemetrySink {
+  const {
+    url,
+    method = 'POST',
+    headers,
+    timeoutMs = DEFAULT_HTTP_TIMEOUT_MS,
+    serialize = (batch: TelemetryBatch) => JSON.stringify(batch),
+  } = options;
+
+  return {
+    name: 'http',
+    async send(batch) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: serialize(batch),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`${method} ${url} responded with ${response.status}`);
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+function getDeviceAttributes(device: PlatformInfo | null): TelemetryAttributes {
+  const attributes: TelemetryAttributes = {};
+  if (!device) {
+    return attributes;
+  }
+  attributes['os.name'] = device.platform;
+  attributes['os.version'] = device.release ?? device.version;
+  if (device.model) {
+    attributes['device.model.identifier'] = device.model;
+  }
+  if (device.manufacturer) {
+    attributes['device.manufacturer'] = device.manufacturer;
+  }
+  return attributes;
+}
+
+/**
+ * Sink recording samples into histograms of an OpenTelemetry `Meter`:
+ * `<prefix>.level` with the level score (LOW = 0 ... EXCELLENT = 3),
+ * `<prefix>.class.level` with the score of each class, and
+ * `<prefix>.<section>.<metric>` for every numeric metric (e.g.
+ * `droid_dex.memory.available_ram`). The device context becomes attributes.
+ */
+export function createOpenTelemetrySink(
+  options: OpenTelemetrySinkOptions
+): TelemetrySink {
+  const { meter, prefix = 'droid_dex' } = options;
+  const histograms: Map<
+    string,
+    ReturnType<TelemetryMeter['createHistogram']>
+  > = new Map();
+
+  const recordValue = (
+    name: string,
+    value: number,
+    attributes: TelemetryAttributes
+  ) => {
+    let histogram = histograms.get(name);
+    if (!histogram) {
+      histogram = meter.createHistogram(`${prefix}.${name}`);
+      histograms.set(name, histogram);
+    }
+    histogram.record(value, attributes);
+  };
+
+  return {
+    name: 'opentelemetry',
+    send(batch) {
+      const deviceAttributes = getDeviceAttributes(batch.device);
+      batch.samples.forEach((sample) => {
+        const attributes = { ...deviceAttributes };
+        if (sample.monitoringId !== undefined) {
+          attributes['droid_dex.monitoring_id'] = sample.monitoringId;
+        }
+        recordValue('level', getLevelScore(sample.level), attributes);
+
+        (Object.keys(sample.breakdown) as PerformanceClass[]).forEach(
+          (performanceClass) => {
+            const classBreakdown = sample.breakdown[performanceClass];
+            if (classBreakdown) {
+              recordValue('class.level', getLevelScore(classBreakdown.level), {
+                ...attributes,
+                'droid_dex.performance_class': performanceClass,
+              });
+            }
+          }
+        );
+
+        (Object.keys(sample.metrics) as (keyof DeviceMetrics)[]).forEach(
+          (section) => {
+            const metrics = (sample.metrics[section] || {}) as Record<
+              string,
+              unknown
+            >;
+            Object.keys(metrics).forEach((metric) => {
+              const value = metrics[metric];
+              if (typeof value === 'number') {
+                recordValue(
+                  `${section}.${toSnakeCase(metric)}`,
+                  value,
+                  attributes
+                );
+              }
+            });
+          }
+        );
+      });
+    },
+  };
+}
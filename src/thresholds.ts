@@ -0,0 +1,82 @@
+import { PerformanceClass } from './types';
+import type {
+  DeviceMetrics,
+  LevelTrigger,
+  MonitoringTrigger,
+  PerformanceResult,
+} from './types';
+import { compareLevels } from './levels';
+
+/**
+ * Metrics section reported for each class
+ */
+export const METRICS_SECTIONS: Record<PerformanceClass, keyof DeviceMetrics> = {
+  [PerformanceClass.CPU]: 'cpu',
+  [PerformanceClass.MEMORY]: 'memory',
+  [PerformanceClass.NETWORK]: 'network',
+  [PerformanceClass.STORAGE]: 'storage',
+  [PerformanceClass.BATTERY]: 'battery',
+  [PerformanceClass.THERMAL]: 'thermal',
+  [PerformanceClass.POWER_SAVE]: 'power',
+  [PerformanceClass.RENDERING]: 'rendering',
+};
+
+function isLevelTrigger(trigger: MonitoringTrigger): trigger is LevelTrigger {
+  return typeof (trigger as LevelTrigger).level === 'string';
+}
+
+/**
+ * Whether a trigger matches a result of its class. Metric triggers never match
+ * while the metric is unavailable.
+ */
+function matchesTrigger(
+  trigger: MonitoringTrigger,
+  result: PerformanceResult
+): boolean {
+  if (isLevelTrigger(trigger)) {
+    return compareLevels(result.level, trigger.level) <= 0;
+  }
+
+  const section = result.metrics[METRICS_SECTIONS[trigger.performanceClass]];
+  const value = section
+    ? (section as unknown as Record<string, unknown>)[trigger.metric]
+    : undefined;
+  if (typeof value !== 'number') {
+    return false;
+  }
+  return (
+    (trigger.below === undefined || value < trigger.below) &&
+    (trigger.above === undefined || value > trigger.above)
+  );
+}
+
+/**
+ * Create a stateful evaluator fed with the results of each class. It returns
+ * the triggers of that class that started matching with the result, so a
+ * trigger fires once when its condition is met and re-arms when it clears.
+ */
+export function createTriggerEvaluator(
+  triggers: MonitoringTrigger[]
+): (
+  performanceClass: PerformanceClass,
+  result: PerformanceResult
+) => MonitoringTrigger[] {
+  const matching = triggers.map(() => false);
+
+  return (performanceClass, result) => {
+    const fired: MonitoringTrigger[] = [];
+    triggers.forEach((trigger, index) => {
+      if (trigger.performanceClass !== performanceClass) {
+        return;
+      }
+      const isMatching =
+        result.supportedClasses.indexOf(performanceClass) !== -1 &&
+        matchesTrigger(trigger, result);
+      if (isMatching && !matching[index]) {
+        fired.push(trigger);
+      }
+      matching[index] = isMatching;
+    });
+    return fired;
+  };
+}
@@ -1,3 +1,5 @@
+import type { DroidDexError } from './errors';
+
 /**
  * Performance classes available for monitoring
  */
@@ -7,6 +9,12 @@ export enum PerformanceClass {
   NETWORK = 'NETWORK',
   STORAGE = 'STORAGE',
   BATTERY = 'BATTERY',
+  /** Thermal throttling state (Android 10+) */
+  THERMAL = 'THERMAL',
+  /** Battery saver and device idle mode */
+  POWER_SAVE = 'POWER_SAVE',
+  /** Frame drops and JS event loop lag of the app, measured in JS */
+  RENDERING = 'RENDERING',
 }
 
 /**
@@ -19,48 +27,129 @@ export enum PerformanceLevel {
   LOW = 'LOW',
 }
 
+/**
+ * Metric measured on the device, or null when the device does not expose it
+ * (missing permission, API level or hardware support)
+ */
+export type MeasuredMetric<T> = T | null;
+
 /**
  * CPU performance metrics
  */
 export interface CpuMetrics {
+  /** Total device RAM in bytes */
   totalRam: number;
   coreCount: number;
-  cpuFrequency: number;
+  /** Current frequency of the fastest core in MHz */
+  cpuFrequency: MeasuredMetric<number>;
 }
 
 /**
  * Memory performance metrics
  */
 export interface MemoryMetrics {
+  /** Maximum heap size of the app in bytes */
   heapLimit: number;
+  /** Heap the app can still allocate in bytes */
   heapRemaining: number;
+  /** RAM available to the system in bytes */
   availableRam: number;
 }
 
+/**
+ * Memory pressure reported by Android through onTrimMemory and onLowMemory
+ */
+export enum MemoryPressureLevel {
+  /** Running, the device is beginning to run low on memory */
+  RUNNING_MODERATE = 'RUNNING_MODERATE',
+  /** Running, the device is running much lower on memory */
+  RUNNING_LOW = 'RUNNING_LOW',
+  /** Running, background processes are being killed */
+  RUNNING_CRITICAL = 'RUNNING_CRITICAL',
+  /** The UI of the app is no longer visible */
+  UI_HIDDEN = 'UI_HIDDEN',
+  /** In background, near the start of the kill list */
+  BACKGROUND = 'BACKGROUND',
+  /** In background, around the middle of the kill list */
+  MODERATE = 'MODERATE',
+  /** In background, among the next processes to be killed */
+  COMPLETE = 'COMPLETE',
+  /** The whole system is running low on memory (onLowMemory) */
+  LOW_MEMORY = 'LOW_MEMORY',
+}
+
+/**
+ * Memory pressure notification with a fresh memory snapshot
+ */
+export interface MemoryPressureEvent {
+  level: MemoryPressureLevel;
+  metrics: MemoryMetrics;
+  timestamp: number;
+}
+
 /**
  * Network performance metrics
  */
 export interface NetworkMetrics {
+  /** EXCELLENT, GOOD, AVERAGE or POOR, UNKNOWN when not connected */
   bandwidthStrength: string;
-  downloadSpeed: number;
-  signalStrength: number;
+  /** Estimated downstream bandwidth in kbps */
+  downloadSpeed: MeasuredMetric<number>;
+  /** Signal strength in dBm */
+  signalStrength: MeasuredMetric<number>;
 }
 
 /**
  * Storage performance metrics
  */
 export interface StorageMetrics {
+  /** Storage available to the app in bytes */
   availableStorage: number;
+  /** Total storage of the data partition in bytes */
+  totalStorage: number;
 }
 
 /**
  * Battery performance metrics
  */
 export interface BatteryMetrics {
-  percentageRemaining: number;
+  /** Battery level from 0 to 100 */
+  percentageRemaining: MeasuredMetric<number>;
   isCharging: boolean;
 }
 
+/**
+ * Thermal metrics
+ */
+export interface ThermalMetrics {
+  /** NONE, LIGHT, MODERATE, SEVERE, CRITICAL, EMERGENCY or SHUTDOWN */
+  thermalStatus: string;
+  /** Forecast thermal headroom in 10 seconds, 1 means severe throttling (Android 11+) */
+  thermalHeadroom: MeasuredMetric<number>;
+}
+
+/**
+ * Power saving metrics
+ */
+export interface PowerMetrics {
+  isPowerSaveMode: boolean;
+  isDeviceIdleMode: boolean;
+}
+
+/**
+ * Rendering metrics of the app, measured in JS over the last seconds
+ */
+export interface RenderingMetrics {
+  /** Frames rendered per second, null when no frame was rendered */
+  fps: MeasuredMetric<number>;
+  /** Share of expected frames that were dropped, from 0 to 1 */
+  droppedFrameRate: MeasuredMetric<number>;
+  /** Mean delay of JS timers in ms */
+  eventLoopLag: number;
+  /** Worst delay of JS timers in ms */
+  maxEventLoopLag: number;
+}
+
 /**
  * Complete device performance metrics
  */
@@ -70,6 +159,33 @@ export interface DeviceMetrics {
   network?: NetworkMetrics;
   storage?: StorageMetrics;
   battery?: BatteryMetrics;
+  thermal?: ThermalMetrics;
+  power?: PowerMetrics;
+  rendering?: RenderingMetrics;
+}
+
+/**
+ * Level and metrics of one class in a combined result
+ */
+export interface ClassBreakdown {
+  level: PerformanceLevel;
+  /** Metrics section of the class (e.g. `metrics.cpu`), null when unavailable */
+  metrics: DeviceMetrics[keyof DeviceMetrics] | null;
+  /** Normalized weight of the class, for weighted queries and monitors */
+  weight?: number;
+}
+
+/**
+ * Options of getPerformanceLevel
+ */
+export interface QueryOptions {
+  /**
+   * Reuse a result of the classes up to this age, in milliseconds, from an
+   * earlier query or an active monitor (default: `maxAgeMs` of the config)
+   */
+  maxAgeMs?: number;
+  /** Query the native side even when a recent or in-flight result exists */
+  fresh?: boolean;
 }
 
 /**
@@ -79,6 +195,67 @@ export interface PerformanceResult {
   level: PerformanceLevel;
   metrics: DeviceMetrics;
   timestamp: number;
+  /** Requested classes that were measured for this result */
+  supportedClasses: PerformanceClass[];
+  /** Requested classes that are not supported on this device */
+  unsupportedClasses: PerformanceClass[];
+  /** Level of each supported class, to find which one limits `level` */
+  breakdown: Partial<Record<PerformanceClass, ClassBreakdown>>;
+  /** Monitoring session that produced the result, for monitoring events */
+  monitoringId?: string;
+  /** Set on results emitted by replayRecording instead of a live monitor */
+  replayed?: boolean;
+  /**
+   * Normalized weight of each supported class in the level of a weighted
+   * query or monitor, summing to 1
+   */
+  contributions?: Partial<Record<PerformanceClass, number>>;
+}
+
+/**
+ * Result of initialize()
+ */
+export interface InitializeResult {
+  /** Initialization success */
+  success: boolean;
+  /** All features available */
+  fullFunctionality: boolean;
+  /** Required permissions missing */
+  missingPermissions: string[];
+  /** Optional permissions missing */
+  missingOptionalPermissions: string[];
+  /** Android API level (0 when not on Android) */
+  apiLevel: number;
+  /** Network monitoring available */
+  networkMonitoringSupported: boolean;
+  /** Battery stats available */
+  batteryStatsSupported: boolean;
+  /** True if disabled for production */
+  disabled?: boolean;
+}
+
+/**
+ * Result of getPlatformInfo()
+ */
+export interface PlatformInfo {
+  /** Platform name, e.g. 'android' or 'ios' */
+  platform: string;
+  /** Android API level, or the OS version string on other platforms */
+  version: number | string;
+  /** Android release name, e.g. '13' */
+  release?: string;
+  /** Device code name */
+  device?: string;
+  /** Device model */
+  model?: string;
+  /** Device manufacturer */
+  manufacturer?: string;
+  /** Whether DroidDex is supported on this platform */
+  supported: boolean;
+  /** Whether the native droid-dex library has been initialized */
+  droidDexInitialized?: boolean;
+  /** True if disabled for production */
+  disabled?: boolean;
 }
 
 /**
@@ -89,6 +266,43 @@ export interface WeightedPerformanceClass {
   weight: number;
 }
 
+/**
+ * Weighted classes, or the name of a preset saved with saveWeightPreset
+ */
+export type WeightedClassesInput = WeightedPerformanceClass[] | string;
+
+/**
+ * Level cutoffs of one class, derived from one of its numeric metrics
+ */
+export interface LevelThresholds {
+  /** Metric of the class the level is derived from, e.g. `availableRam` for MEMORY */
+  metric: NumericMetricName;
+  /**
+   * Worst metric value still rated at each level, in the unit of the metric.
+   * Values not reaching any listed level are rated LOW.
+   */
+  levels: Partial<
+    Record<Exclude<PerformanceLevel, PerformanceLevel.LOW>, number>
+  >;
+  /** Lower values are better, e.g. `thermalHeadroom` or `eventLoopLag` (default: false) */
+  lowerIsBetter?: boolean;
+}
+
+/**
+ * Custom level cutoffs per class, replacing the built-in classification
+ */
+export type PerformanceThresholds = Partial<
+  Record<PerformanceClass, LevelThresholds>
+>;
+
+/**
+ * How the levels of several classes are combined into one level:
+ * - `weighted-mean`: weighted mean of the levels, rounded to the nearest level
+ * - `worst`: worst level of the classes with a non-zero weight
+ * - `best`: best level of the classes with a non-zero weight
+ */
+export type ScoringStrategy = 'weighted-mean' | 'worst' | 'best';
+
 /**
  * Configuration for performance monitoring
  */
@@ -99,6 +313,86 @@ export interface DroidDexConfig {
   monitoringInterval?: number;
   /** Enable automatic monitoring */
   autoMonitoring?: boolean;
+  /**
+   * Per-class level cutoffs, used instead of the built-in classification
+   * while the metric is available
+   */
+  thresholds?: PerformanceThresholds;
+  /** How the levels of several classes are combined (default: 'weighted-mean') */
+  scoring?: ScoringStrategy;
+  /**
+   * Age up to which getPerformanceLevel reuses the results of earlier queries
+   * and active monitors, in milliseconds (default: 0, only identical queries
+   * in flight are shared)
+   */
+  maxAgeMs?: number;
+}
+
+/**
+ * Lifecycle policy of a monitor while the app is in background
+ */
+export interface MonitoringOptions {
+  /** Stop sampling while the app is in background (default: false) */
+  pauseInBackground?: boolean;
+  /** Sampling interval while the app is in background, when not paused */
+  backgroundIntervalMs?: number;
+}
+
+/**
+ * Lifecycle state change of a monitor:
+ * - `paused`: sampling stopped, e.g. the app went to background
+ * - `resumed`: sampling restarted after a pause
+ * - `terminated`: the monitor was stopped by the native side, e.g. when the
+ *   host activity is destroyed
+ */
+export type MonitorLifecycleState = 'paused' | 'resumed' | 'terminated';
+
+/**
+ * Lifecycle event of a monitor
+ */
+export interface MonitorLifecycleEvent {
+  monitoringId: string;
+  state: MonitorLifecycleState;
+  timestamp: number;
+}
+
+/**
+ * Monitor lifecycle callback
+ */
+export type LifecycleListener = (event: MonitorLifecycleEvent) => void;
+
+/**
+ * How a monitor was started: startMonitoring, startWeightedMonitoring or
+ * startThresholdMonitoring
+ */
+export type MonitorType = 'standard' | 'weighted' | 'threshold';
+
+/**
+ * Description of an active monitor
+ */
+export interface MonitorInfo {
+  monitoringId: string;
+  type: MonitorType;
+  performanceClasses: PerformanceClass[];
+  /** Weight of each class, for weighted monitors */
+  weights?: Partial<Record<PerformanceClass, number>>;
+  /** Foreground sampling interval, or fallback interval of threshold monitors */
+  intervalMs: number;
+  options: MonitoringOptions;
+  /** Whether sampling is paused, by pauseMonitor or the lifecycle policy */
+  paused: boolean;
+  startedAt: number;
+}
+
+/**
+ * Changes applied by updateMonitor. Setting weights turns a standard monitor
+ * into a weighted one.
+ */
+export interface MonitorUpdate {
+  intervalMs?: number;
+  classes?: PerformanceClass[];
+  /** Weights of the classes, classes without one keep theirs (default: 1) */
+  weights?: Partial<Record<PerformanceClass, number>>;
 }
 
 /**
@@ -106,7 +400,638 @@ export interface DroidDexConfig {
  */
 export type PerformanceListener = (result: PerformanceResult) => void;
 
+/**
+ * Memory pressure callback
+ */
+export type MemoryPressureListener = (event: MemoryPressureEvent) => void;
+
 /**
  * Error callback for performance monitoring
  */
-export type ErrorListener = (error: Error) => void;
\ No newline at end of file
+export type ErrorListener = (error: DroidDexError) => void;
+
+/**
+ * Codes carried by every DroidDexError
+ */
+export type DroidDexErrorCode =
+  | 'NO_SUPPORTED_CLASSES'
+  | 'PERFORMANCE_ERROR'
+  | 'MONITORING_ERROR'
+  | 'UNSUPPORTED_VERSION'
+  | 'INIT_ERROR'
+  | 'PLATFORM_ERROR'
+  | 'LINKING_ERROR'
+  | 'INVALID_PAYLOAD'
+  | 'MONITOR_NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'TELEMETRY_ERROR'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Extra context attached to a DroidDexError
+ */
+export interface DroidDexErrorContext {
+  /** Performance classes involved in the failed call */
+  performanceClasses?: PerformanceClass[];
+  /** Monitoring session the error belongs to */
+  monitoringId?: string;
+  /** Override the default recoverability for the error code */
+  recoverable?: boolean;
+  /** Underlying native or JS error */
+  cause?: unknown;
+}
+
+/**
+ * State returned by the performance hooks
+ */
+export interface PerformanceHookState {
+  /** Latest performance level, or null until the first result arrives */
+  level: PerformanceLevel | null;
+  /** Latest device metrics, or null until the first result arrives */
+  metrics: DeviceMetrics | null;
+  /** Last error raised while fetching or monitoring */
+  error: DroidDexError | null;
+  /** True until the first result or error arrives */
+  loading: boolean;
+}
+
+/**
+ * Options for recording performance history of a monitoring session
+ */
+export interface PerformanceHistoryOptions {
+  /** Maximum number of samples kept (default: 100) */
+  capacity?: number;
+  /** Drop samples older than this many milliseconds (default: unlimited) */
+  windowMs?: number;
+}
+
+/**
+ * Direction in which performance moved over the recorded samples
+ */
+export type PerformanceTrend = 'IMPROVING' | 'STABLE' | 'DEGRADING';
+
+/**
+ * Rolling statistics of a numeric metric
+ */
+export interface MetricStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+type NumericFields<T> = {
+  [F in keyof T]-?: T[F] extends MeasuredMetric<number> ? F : never;
+}[keyof T];
+
+/**
+ * Rolling statistics of every numeric field of DeviceMetrics
+ */
+export type DeviceMetricsStats = {
+  [S in keyof DeviceMetrics]?: {
+    [F in NumericFields<NonNullable<DeviceMetrics[S]>>]?: MetricStats;
+  };
+};
+
+/**
+ * Rolling statistics over the recorded performance history
+ */
+export interface PerformanceHistoryStats {
+  /** Number of samples the statistics were computed from */
+  sampleCount: number;
+  /** Number of samples at each level */
+  levelDistribution: Record<PerformanceLevel, number>;
+  /** Milliseconds spent at each level, each sample lasting until the next one */
+  timeInLevel: Record<PerformanceLevel, number>;
+  /** Min/max/mean of numeric metrics */
+  metrics: DeviceMetricsStats;
+  /** Whether the level improved or degraded across the samples */
+  trend: PerformanceTrend;
+}
+
+/**
+ * Handle returned by subscription APIs
+ */
+export interface DroidDexSubscription {
+  /** Stop receiving events */
+  remove(): void;
+}
+
+/**
+ * Hysteresis rules applied before a level change is reported
+ */
+export interface LevelChangeOptions {
+  /** Consecutive worse samples required before a downgrade is reported (default: 1) */
+  downgradeSamples?: number;
+  /** Consecutive better samples required before an upgrade is reported (default: 3) */
+  upgradeSamples?: number;
+  /** Milliseconds the worse readings must persist before a downgrade is reported (default: 0) */
+  downgradeDwellMs?: number;
+  /** Milliseconds the better readings must persist before an upgrade is reported (default: 0) */
+  upgradeDwellMs?: number;
+}
+
+/**
+ * Level change reported by onLevelChange
+ */
+export interface LevelChangeEvent {
+  /** Newly reported level */
+  level: PerformanceLevel;
+  /** Previously reported level, or null for the first sample */
+  previousLevel: PerformanceLevel | null;
+  /** Sample that triggered the change */
+  result: PerformanceResult;
+}
+
+/**
+ * Level change callback
+ */
+export type LevelChangeListener = (event: LevelChangeEvent) => void;
+
+/**
+ * Feeds samples through the hysteresis rules and returns a LevelChangeEvent
+ * whenever the reported level should change
+ */
+export type LevelChangeDetector = (
+  result: PerformanceResult
+) => LevelChangeEvent | null;
+
+/**
+ * Name of any numeric field of DeviceMetrics
+ */
+export type NumericMetricName = {
+  [S in keyof DeviceMetrics]-?: NumericFields<NonNullable<DeviceMetrics[S]>>;
+}[keyof DeviceMetrics];
+
+/**
+ * Fires when the level of a class drops to `level` or worse
+ */
+export interface LevelTrigger {
+  performanceClass: PerformanceClass;
+  level: PerformanceLevel;
+}
+
+/**
+ * Fires when a numeric metric of a class goes below and/or above a value,
+ * e.g. `{ performanceClass: BATTERY, metric: 'percentageRemaining', below: 15 }`
+ */
+export interface MetricTrigger {
+  performanceClass: PerformanceClass;
+  metric: NumericMetricName;
+  below?: number;
+  above?: number;
+}
+
+/**
+ * Condition watched by threshold monitoring
+ */
+export type MonitoringTrigger = LevelTrigger | MetricTrigger;
+
+/**
+ * Threshold monitoring options
+ */
+export interface ThresholdMonitoringOptions {
+  /**
+   * Polling interval for classes without native change callbacks (CPU,
+   * STORAGE, RENDERING, and older API levels), and safety net for the others
+   * (default: 60000)
+   */
+  fallbackIntervalMs?: number;
+}
+
+/**
+ * Reported when triggers start matching. A trigger fires again only after its
+ * condition cleared.
+ */
+export interface ThresholdEvent {
+  monitoringId: string;
+  /** Triggers that started matching with this result */
+  triggers: MonitoringTrigger[];
+  /** Result of the class the triggers belong to */
+  result: PerformanceResult;
+}
+
+/**
+ * Threshold event callback
+ */
+export type ThresholdListener = (event: ThresholdEvent) => void;
+
+/**
+ * Value of a setting for each performance level. Levels left out use the
+ * value of the closest defined level, preferring the worse one on ties.
+ */
+export type LevelMap<T> = Partial<Record<PerformanceLevel, T>>;
+
+/**
+ * Policy rule evaluated against the level of specific performance classes
+ */
+export interface ClassPolicyRule<T> {
+  /** Value for each level */
+  levels: LevelMap<T>;
+  /**
+   * Classes whose level drives this setting, taken from the breakdown of the
+   * evaluated result when it covers them
+   */
+  performanceClasses: PerformanceClass[];
+}
+
+/**
+ * A policy rule, either a level map or a class-specific rule
+ */
+export type PolicyRule<T> = LevelMap<T> | ClassPolicyRule<T>;
+
+/**
+ * Declarative mapping of setting names to policy rules
+ */
+export type PolicyDefinition = Record<string, PolicyRule<unknown>>;
+
+/**
+ * Settings object produced by evaluating a policy
+ */
+export type PolicySettings<D extends PolicyDefinition> = {
+  [K in keyof D]: D[K] extends ClassPolicyRule<infer T>
+    ? T
+    : D[K] extends LevelMap<infer T>
+    ? T
+    : never;
+};
+
+/**
+ * Settings change callback
+ */
+export type PolicyListener<D extends PolicyDefinition> = (
+  settings: PolicySettings<D>,
+  result: PerformanceResult
+) => void;
+
+/**
+ * Adaptive policy mapping performance levels to app settings
+ */
+export interface PerformancePolicy<D extends PolicyDefinition> {
+  /** Evaluate the policy against a result or level already at hand */
+  evaluate(input: PerformanceResult | PerformanceLevel): PolicySettings<D>;
+  /** Query the current level of the given classes and evaluate the policy */
+  resolve(
+    ...performanceClasses: PerformanceClass[]
+  ): Promise<PolicySettings<D>>;
+  /** Query the current weighted level and evaluate the policy */
+  resolveWeighted(
+    weightedClasses: WeightedClassesInput
+  ): Promise<PolicySettings<D>>;
+  /**
+   * Re-evaluate the policy on every level change of a monitoring session,
+   * overall or of the classes of a class rule
+   */
+  watch(
+    monitoringId: string,
+    listener: PolicyListener<D>,
+    options?: LevelChangeOptions
+  ): DroidDexSubscription;
+}
+
+/**
+ * Stable device tier, derived from static hardware characteristics
+ */
+export interface DeviceTier {
+  tier: PerformanceLevel;
+  /** Total RAM of the device in bytes, null when unavailable */
+  totalRam: number | null;
+  /** Number of CPU cores, null when unavailable */
+  coreCount: number | null;
+  /** Android API level, null on other platforms */
+  apiLevel: number | null;
+  /** Device model, a change of model or API level invalidates the cached tier */
+  model: string | null;
+  /** When the tier was computed, Unix timestamp in milliseconds */
+  computedAt: number;
+  /** Whether the tier was read from the persistent cache */
+  fromCache: boolean;
+}
+
+/**
+ * Options of getDeviceTier
+ */
+export interface DeviceTierOptions {
+  /** Time a cached tier stays valid, in milliseconds (default: 30 days) */
+  ttlMs?: number;
+  /** Compute the tier again instead of reading the cache */
+  refresh?: boolean;
+}
+
+/**
+ * Samples exported together by a telemetry reporter
+ */
+export interface TelemetryBatch {
+  /** Device context from getPlatformInfo, null when it could not be read */
+  device: PlatformInfo | null;
+  samples: PerformanceResult[];
+  /** Time the batch was created, in milliseconds */
+  createdAt: number;
+  /** Delivery attempt of the batch to the sink, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * Destination of telemetry batches
+ */
+export interface TelemetrySink {
+  /** Name used in delivery errors */
+  name: string;
+  /** Deliver a batch. Throw or reject to keep it queued and retry later. */
+  send(batch: TelemetryBatch): void | Promise<void>;
+}
+
+/**
+ * Options of a telemetry reporter
+ */
+export interface TelemetryReporterOptions {
+  sinks: TelemetrySink[];
+  /** Monitors whose results are reported (default: every monitor) */
+  monitoringIds?: string[];
+  /** Fraction of samples kept, 0 to 1 (default: 1) */
+  sampleRate?: number;
+  /** Samples per batch, a full batch is sent right away (default: 20) */
+  batchSize?: number;
+  /** Delay before a partial batch is sent, in ms (default: 10000) */
+  flushIntervalMs?: number;
+  /**
+   * Samples queued in memory per sink while it fails, oldest dropped first
+   * (default: 500). Queues don't survive an app restart.
+   */
+  maxQueueSize?: number;
+  /** Delay before the first retry, doubled after each failure (default: 1000) */
+  retryDelayMs?: number;
+  /** Upper bound of the retry delay, in ms (default: 60000) */
+  maxRetryDelayMs?: number;
+  /** Attempts before a batch is dropped (default: unlimited) */
+  maxAttempts?: number;
+  /** Called when a sink fails to deliver a batch */
+  onError?: ErrorListener;
+}
+
+/**
+ * Reporter batching performance samples to telemetry sinks
+ */
+export interface TelemetryReporter {
+  /** Add a result to the next batch, subject to the sample rate */
+  record(result: PerformanceResult): void;
+  /** Send the pending samples and retry the queued batches right away */
+  flush(): Promise<void>;
+  /** Samples waiting to be delivered, per sink name */
+  getQueueSizes(): Record<string, number>;
+  /** Stop reporting, sending the pending samples a last time */
+  stop(): Promise<void>;
+}
+
+/**
+ * Attributes attached to a telemetry measurement
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Subset of an OpenTelemetry `Meter` used by the OpenTelemetry sink
+ */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: TelemetryAttributes): void };
+}
+
+/**
+ * Options of the HTTP telemetry sink
+ */
+export interface HttpSinkOptions {
+  url: string;
+  /** HTTP method (default: 'POST') */
+  method?: string;
+  headers?: Record<string, string>;
+  /** Abort requests taking longer, in ms (default: 10000) */
+  timeoutMs?: number;
+  /** Request body of a batch (default: JSON of the batch) */
+  serialize?: (batch: TelemetryBatch) => string;
+}
+
+/**
+ * Options of the OpenTelemetry telemetry sink
+ */
+export interface OpenTelemetrySinkOptions {
+  meter: TelemetryMeter;
+  /** Prefix of the histogram names (default: 'droid_dex') */
+  prefix?: string;
+}
+
+/**
+ * Performance event captured by a recording
+ */
+export interface RecordedPerformanceEvent {
+  /** Time since the start of the recording, in milliseconds */
+  offsetMs: number;
+  result: PerformanceResult;
+}
+
+/**
+ * Level change of a monitor captured by a recording
+ */
+export interface RecordedLevelTransition {
+  /** Time since the start of the recording, in milliseconds */
+  offsetMs: number;
+  monitoringId: string;
+  from: PerformanceLevel;
+  to: PerformanceLevel;
+}
+
+/**
+ * Versioned, JSON-serializable trace of a performance session
+ */
+export interface PerformanceRecording {
+  /** Format version of the recording */
+  version: 1;
+  /** Start and end of the recording, Unix timestamps in milliseconds */
+  startedAt: number;
+  endedAt: number;
+  /** Platform info of the recorded device, null when it could not be read */
+  platformInfo: PlatformInfo | null;
+  events: RecordedPerformanceEvent[];
+  transitions: RecordedLevelTransition[];
+}
+
+/**
+ * Options of a recording
+ */
+export interface RecordingOptions {
+  /** Monitors whose results are recorded (default: every monitor) */
+  monitoringIds?: string[];
+  /**
+   * Events kept, the oldest being dropped first, an integer >= 1
+   * (default: 10000)
+   */
+  maxEvents?: number;
+}
+
+/**
+ * Options of a recording replay
+ */
+export interface ReplayOptions {
+  /**
+   * Monitoring ID the events are emitted under, to reach the listeners added
+   * with addPerformanceListener for it
+   */
+  monitoringId: string;
+  /** Replay only the events of this recorded monitor (default: every event) */
+  recordedMonitoringId?: string;
+  /** Playback speed, e.g. 2 replays twice as fast (default: 1) */
+  speed?: number;
+}
+
+/**
+ * Recording being replayed
+ */
+export interface RecordingReplay {
+  /** Resolves to true once every event was emitted, false when stopped */
+  finished: Promise<boolean>;
+  /** Stop emitting the remaining events */
+  stop(): void;
+}
+
+/**
+ * Backend executing DroidDex calls. The native module is used by default;
+ * a custom backend (e.g. the simulator) can be installed with setBackend().
+ * Results are validated the same way as native payloads.
+ */
+export interface DroidDexBackend {
+  initialize(config: DroidDexConfig): Promise<unknown>;
+  getPerformanceLevel(performanceClasses: PerformanceClass[]): Promise<unknown>;
+  getWeightedPerformanceLevel(
+    weightedClasses: WeightedPerformanceClass[]
+  ): Promise<unknown>;
+  startMonitoring(
+    performanceClasses: PerformanceClass[],
+    intervalMs: number
+  ): Promise<string>;
+  startWeightedMonitoring(
+    weightedClasses: WeightedPerformanceClass[],
+    intervalMs: number
+  ): Promise<string>;
+  /**
+   * Emit results when the device state of the classes changes, polling every
+   * fallbackIntervalMs as a fallback
+   */
+  startEventMonitoring(
+    performanceClasses: PerformanceClass[],
+    fallbackIntervalMs: number
+  ): Promise<string>;
+  /** Stop sampling a monitor until it is resumed */
+  pauseMonitoring(monitoringId: string): Promise<boolean>;
+  /**
+   * Sample a monitor right away and then every intervalMs, resuming it if it
+   * was paused
+   */
+  resumeMonitoring(monitoringId: string, intervalMs: number): Promise<boolean>;
+  /**
+   * Replace the classes and interval of a monitor, keeping its ID and paused
+   * state. Weights are only used when `weighted` is true.
+   */
+  updateMonitoring(
+    monitoringId: string,
+    weightedClasses: WeightedPerformanceClass[],
+    weighted: boolean,
+    intervalMs: number
+  ): Promise<boolean>;
+  stopMonitoring(monitoringId: string): Promise<boolean>;
+  stopAllMonitoring(): Promise<boolean>;
+  getPlatformInfo(): Promise<unknown>;
+  /** Read a value persisted across app launches, or null when not set */
+  getStoredValue(key: string): Promise<string | null>;
+  /** Persist a value across app launches, or remove it when null */
+  setStoredValue(key: string, value: string | null): Promise<boolean>;
+  /**
+   * Subscribe to a backend event (`DroidDex_Performance`, `DroidDex_Error`,
+   * `DroidDex_MemoryPressure` or `DroidDex_Lifecycle`)
+   */
+  addListener(
+    eventName: string,
+    listener: (payload: unknown) => void
+  ): DroidDexSubscription;
+}
+
+/**
+ * Randomized device profile used by the simulator backend
+ */
+export interface SimulatorProfile {
+  /** Relative likelihood of each level */
+  levelWeights: Partial<Record<PerformanceLevel, number>>;
+  /** Base metrics reported for each native class (RENDERING is measured in JS) */
+  metrics: Required<Omit<DeviceMetrics, 'rendering'>>;
+  /** Relative random variation applied to numeric metrics, 0 to 1 (default: 0.1) */
+  jitter?: number;
+}
+
+/**
+ * Names of the built-in simulator profiles
+ */
+export type SimulatorProfileName =
+  | 'flagship'
+  | 'mid-range'
+  | 'low-end-2g'
+  | 'low-battery';
+
+/**
+ * Options of the simulator backend. When several sources are given, a
+ * recorded trace wins over a level sequence, which wins over the profile.
+ */
+export interface SimulatorOptions {
+  /** Device profile used for metrics and random levels (default: 'mid-range') */
+  profile?: SimulatorProfileName | SimulatorProfile;
+  /** Scripted sequence of levels returned one after another */
+  levels?: PerformanceLevel[];
+  /**
+   * Recorded results replayed one after another, narrowed to the requested
+   * classes (timestamps are rewritten)
+   */
+  trace?: PerformanceResult[];
+  /** Restart the sequence or trace once exhausted instead of holding the last entry (default: true) */
+  loop?: boolean;
+  /** Seed of the random generator, for reproducible runs (default: 1) */
+  seed?: number;
+  /** Classes reported as supported (default: all) */
+  supportedClasses?: PerformanceClass[];
+  /** Overrides of the reported platform info */
+  platformInfo?: Partial<PlatformInfo>;
+  /** Values persisted from earlier launches, e.g. a cached device tier */
+  storage?: Record<string, string>;
+}
+
+/**
+ * Simulator backend with controls for tests
+ */
+export interface SimulatorBackend extends DroidDexBackend {
+  /** Force every following sample to a level, or null to resume the script */
+  setLevel(level: PerformanceLevel | null): void;
+  /**
+   * Force the level of one class in the breakdown of every following sample,
+   * or null to reset it. The level of the results then combines the class
+   * levels with the configured scoring strategy.
+   */
+  setClassLevel(
+    performanceClass: PerformanceClass,
+    level: PerformanceLevel | null
+  ): void;
+  /**
+   * Immediately emit a sample for one monitor, or for all running (not
+   * paused) monitors, including event monitors whose level did not change
+   */
+  tick(monitoringId?: string): void;
+  /** Emit an error event for a monitor */
+  emitError(monitoringId: string, message: string): void;
+  /** Emit a memory pressure event with the memory metrics of the profile */
+  emitMemoryPressure(level: MemoryPressureLevel): void;
+  /**
+   * Emit a `terminated` lifecycle event for every monitor and stop them, like
+   * the native module when the host activity is destroyed
+   */
+  terminate(): void;
+  /** IDs of the running monitors */
+  getActiveMonitors(): string[];
+  /** Stop all monitors and restart the script and random generator */
+  reset(): void;
+}
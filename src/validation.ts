@@ -0,0 +1,418 @@
+import {
+  MemoryPressureLevel,
+  PerformanceClass,
+  PerformanceLevel,
+} from './types';
+import type {
+  ClassBreakdown,
+  DeviceMetrics,
+  DroidDexErrorContext,
+  InitializeResult,
+  MemoryMetrics,
+  MemoryPressureEvent,
+  MonitorLifecycleEvent,
+  MonitorLifecycleState,
+  PerformanceResult,
+  PlatformInfo,
+} from './types';
+import { DroidDexValidationError } from './errors';
+import { METRICS_SECTIONS } from './thresholds';
+
+type FieldType = 'number' | 'string' | 'boolean' | 'number | null';
+
+type FieldSchema = Record<string, FieldType>;
+
+/**
+ * Expected fields for every metrics section sent by the native side
+ */
+const METRICS_SCHEMA: Record<keyof DeviceMetrics, FieldSchema> = {
+  cpu: {
+    totalRam: 'number',
+    coreCount: 'number',
+    cpuFrequency: 'number | null',
+  },
+  memory: {
+    heapLimit: 'number',
+    heapRemaining: 'number',
+    availableRam: 'number',
+  },
+  network: {
+    bandwidthStrength: 'string',
+    downloadSpeed: 'number | null',
+    signalStrength: 'number | null',
+  },
+  storage: { availableStorage: 'number', totalStorage: 'number' },
+  battery: { percentageRemaining: 'number | null', isCharging: 'boolean' },
+  thermal: { thermalStatus: 'string', thermalHeadroom: 'number | null' },
+  power: { isPowerSaveMode: 'boolean', isDeviceIdleMode: 'boolean' },
+  rendering: {
+    fps: 'number | null',
+    droppedFrameRate: 'number | null',
+    eventLoopLag: 'number',
+    maxEventLoopLag: 'number',
+  },
+};
+
+const INITIALIZE_RESULT_SCHEMA: FieldSchema = {
+  success: 'boolean',
+  fullFunctionality: 'boolean',
+  apiLevel: 'number',
+  networkMonitoringSupported: 'boolean',
+  batteryStatsSupported: 'boolean',
+};
+
+const PERFORMANCE_LEVELS = Object.keys(PerformanceLevel).map(
+  (key) => PerformanceLevel[key as keyof typeof PerformanceLevel]
+);
+
+const PERFORMANCE_CLASSES = Object.keys(PerformanceClass).map(
+  (key) => PerformanceClass[key as keyof typeof PerformanceClass]
+);
+
+const LIFECYCLE_STATES: MonitorLifecycleState[] = [
+  'paused',
+  'resumed',
+  'terminated',
+];
+
+const MEMORY_PRESSURE_LEVELS = Object.keys(MemoryPressureLevel).map(
+  (key) => MemoryPressureLevel[key as keyof typeof MemoryPressureLevel]
+);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function fail(
+  path: string,
+  expected: string,
+  value: unknown,
+  context: DroidDexErrorContext
+): never {
+  throw new DroidDexValidationError(
+    path,
+    `Invalid DroidDex payload: expected ${path} to be ${expected}, got ${describe(
+      value
+    )}`,
+    context
+  );
+}
+
+function expectObject(
+  value: unknown,
+  path: string,
+  context: DroidDexErrorContext
+): Record<string, unknown> {
+  if (!isObject(value)) {
+    fail(path, 'an object', value, context);
+  }
+  return value;
+}
+
+function expectField(
+  value: unknown,
+  type: FieldType,
+  path: string,
+  context: DroidDexErrorContext
+): void {
+  if (type === 'number | null') {
+    if (value !== null) {
+      expectField(value, 'number', path, context);
+    }
+    return;
+  }
+  if (type === 'number') {
+    // Infinity would reach the level math and serialize as null
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(path, 'a finite number', value, context);
+    }
+  } else if (typeof value !== type) {
+    fail(path, `a ${type}`, value, context);
+  }
+}
+
+function expectStringArray(
+  value: unknown,
+  path: string,
+  context: DroidDexErrorContext
+): string[] {
+  if (!Array.isArray(value)) {
+    fail(path, 'an array', value, context);
+  }
+  value.forEach((item, index) =>
+    expectField(item, 'string', `${path}[${index}]`, context)
+  );
+  return value;
+}
+
+function validateFields(
+  source: Record<string, unknown>,
+  schema: FieldSchema,
+  path: string,
+  context: DroidDexErrorContext
+): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  Object.keys(schema).forEach((field) => {
+    expectField(source[field], schema[field], `${path}.${field}`, context);
+    normalized[field] = source[field];
+  });
+  return normalized;
+}
+
+function validatePerformanceClasses(
+  value: unknown,
+  path: string,
+  context: DroidDexErrorContext
+): PerformanceClass[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return expectStringArray(value, path, context).map((item, index) => {
+    if (PERFORMANCE_CLASSES.indexOf(item as PerformanceClass) === -1) {
+      fail(`${path}[${index}]`, 'a PerformanceClass', item, context);
+    }
+    return item as PerformanceClass;
+  });
+}
+
+function validateMetrics(
+  value: unknown,
+  context: DroidDexErrorContext
+): DeviceMetrics {
+  const source = expectObject(value, 'metrics', context);
+  const metrics: Record<string, unknown> = {};
+
+  (Object.keys(METRICS_SCHEMA) as (keyof DeviceMetrics)[]).forEach(
+    (section) => {
+      if (source[section] === undefined || source[section] === null) {
+        return;
+      }
+      const path = `metrics.${section}`;
+      metrics[section] = validateFields(
+        expectObject(source[section], path, context),
+        METRICS_SCHEMA[section],
+        path,
+        context
+      );
+    }
+  );
+
+  return metrics as DeviceMetrics;
+}
+
+/**
+ * Validate the level of each class, and complete it with the metrics section
+ * of the class. Payloads without a breakdown get one when a single class is
+ * supported, as its level is the level of the result.
+ */
+function validateBreakdown(
+  value: unknown,
+  result: Omit<PerformanceResult, 'breakdown'>,
+  context: DroidDexErrorContext
+): Partial<Record<PerformanceClass, ClassBreakdown>> {
+  const getMetrics = (performanceClass: PerformanceClass) =>
+    result.metrics[METRICS_SECTIONS[performanceClass]] ?? null;
+
+  if (value === undefined || value === null) {
+    if (result.supportedClasses.length !== 1) {
+      return {};
+    }
+    const performanceClass = result.supportedClasses[0];
+    return {
+      [performanceClass]: {
+        level: result.level,
+        metrics: getMetrics(performanceClass),
+      },
+    };
+  }
+
+  const source = expectObject(value, 'breakdown', context);
+  const breakdown: Partial<Record<PerformanceClass, ClassBreakdown>> = {};
+  Object.keys(source).forEach((key) => {
+    const path = `breakdown.${key}`;
+    if (PERFORMANCE_CLASSES.indexOf(key as PerformanceClass) === -1) {
+      fail(path, 'keyed by a PerformanceClass', source[key], context);
+    }
+    const entry = expectObject(source[key], path, context);
+    if (PERFORMANCE_LEVELS.indexOf(entry.level as PerformanceLevel) === -1) {
+      fail(`${path}.level`, 'a PerformanceLevel', entry.level, context);
+    }
+    const performanceClass = key as PerformanceClass;
+    const classBreakdown: ClassBreakdown = {
+      level: entry.level as PerformanceLevel,
+      metrics: getMetrics(performanceClass),
+    };
+    if (entry.weight !== undefined) {
+      expectField(entry.weight, 'number', `${path}.weight`, context);
+      classBreakdown.weight = entry.weight as number;
+    }
+    breakdown[performanceClass] = classBreakdown;
+  });
+  return breakdown;
+}
+
+/**
+ * Validate and normalize a performance result received from the native side
+ */
+export function validatePerformanceResult(
+  payload: unknown,
+  context: DroidDexErrorContext = {}
+): PerformanceResult {
+  const source = expectObject(payload, 'result', context);
+
+  if (PERFORMANCE_LEVELS.indexOf(source.level as PerformanceLevel) === -1) {
+    fail('level', 'a PerformanceLevel', source.level, context);
+  }
+  expectField(source.timestamp, 'number', 'timestamp', context);
+  if (source.monitoringId !== undefined) {
+    expectField(source.monitoringId, 'string', 'monitoringId', context);
+  }
+
+  const validated: Omit<PerformanceResult, 'breakdown'> = {
+    level: source.level as PerformanceLevel,
+    metrics: validateMetrics(source.metrics, context),
+    timestamp: source.timestamp as number,
+    supportedClasses: validatePerformanceClasses(
+      source.supportedClasses,
+      'supportedClasses',
+      context
+    ),
+    unsupportedClasses: validatePerformanceClasses(
+      source.unsupportedClasses,
+      'unsupportedClasses',
+      context
+    ),
+  };
+  const result: PerformanceResult = {
+    ...validated,
+    breakdown: validateBreakdown(source.breakdown, validated, context),
+  };
+  if (source.monitoringId !== undefined) {
+    result.monitoringId = source.monitoringId as string;
+  }
+  if (source.replayed === true) {
+    result.replayed = true;
+  }
+  return result;
+}
+
+/**
+ * Validate and normalize the result of the native initialize call
+ */
+export function validateInitializeResult(payload: unknown): InitializeResult {
+  const context: DroidDexErrorContext = {};
+  const source = expectObject(payload, 'result', context);
+  const result = validateFields(
+    source,
+    INITIALIZE_RESULT_SCHEMA,
+    'result',
+    context
+  ) as unknown as InitializeResult;
+
+  result.missingPermissions = expectStringArray(
+    source.missingPermissions || [],
+    'missingPermissions',
+    context
+  );
+  result.missingOptionalPermissions = expectStringArray(
+    source.missingOptionalPermissions || [],
+    'missingOptionalPermissions',
+    context
+  );
+  return result;
+}
+
+/**
+ * Validate and normalize the result of the native getPlatformInfo call
+ */
+export function validatePlatformInfo(payload: unknown): PlatformInfo {
+  const context: DroidDexErrorContext = {};
+  const source = expectObject(payload, 'result', context);
+
+  expectField(source.platform, 'string', 'platform', context);
+  expectField(source.supported, 'boolean', 'supported', context);
+  if (typeof source.version !== 'number') {
+    expectField(source.version, 'string', 'version', context);
+  }
+
+  const info: PlatformInfo = {
+    platform: source.platform as string,
+    version: source.version as number | string,
+    supported: source.supported as boolean,
+  };
+  (['release', 'device', 'model', 'manufacturer'] as const).forEach((field) => {
+    if (source[field] !== undefined && source[field] !== null) {
+      expectField(source[field], 'string', field, context);
+      info[field] = source[field] as string;
+    }
+  });
+  if (source.droidDexInitialized !== undefined) {
+    expectField(
+      source.droidDexInitialized,
+      'boolean',
+      'droidDexInitialized',
+      context
+    );
+    info.droidDexInitialized = source.droidDexInitialized as boolean;
+  }
+  return info;
+}
+
+/**
+ * Validate and normalize a memory pressure event received from the native side
+ */
+export function validateMemoryPressureEvent(
+  payload: unknown
+): MemoryPressureEvent {
+  const context: DroidDexErrorContext = {};
+  const source = expectObject(payload, 'event', context);
+
+  if (
+    MEMORY_PRESSURE_LEVELS.indexOf(source.level as MemoryPressureLevel) === -1
+  ) {
+    fail('level', 'a MemoryPressureLevel', source.level, context);
+  }
+  expectField(source.timestamp, 'number', 'timestamp', context);
+
+  return {
+    level: source.level as MemoryPressureLevel,
+    metrics: validateFields(
+      expectObject(source.metrics, 'metrics', context),
+      METRICS_SCHEMA.memory,
+      'metrics',
+      context
+    ) as unknown as MemoryMetrics,
+    timestamp: source.timestamp as number,
+  };
+}
+
+/**
+ * Validate and normalize a monitor lifecycle event received from the native
+ * side
+ */
+export function validateLifecycleEvent(
+  payload: unknown
+): MonitorLifecycleEvent {
+  const context: DroidDexErrorContext = {};
+  const source = expectObject(payload, 'event', context);
+
+  expectField(source.monitoringId, 'string', 'monitoringId', context);
+  context.monitoringId = source.monitoringId as string;
+  if (LIFECYCLE_STATES.indexOf(source.state as MonitorLifecycleState) === -1) {
+    fail('state', 'a MonitorLifecycleState', source.state, context);
+  }
+  expectField(source.timestamp, 'number', 'timestamp', context);
+
+  return {
+    monitoringId: source.monitoringId as string,
+    state: source.state as MonitorLifecycleState,
+    timestamp: source.timestamp as number,
+  };
+}
@@ -0,0 +1,185 @@
+import { PerformanceClass } from './types';
+import type {
+  PerformanceResult,
+  WeightedClassesInput,
+  WeightedPerformanceClass,
+} from './types';
+import { DroidDexArgumentError } from './errors';
+import type { ClassWeights } from './rendering';
+
+const PERFORMANCE_CLASSES = Object.keys(PerformanceClass).map(
+  (key) => PerformanceClass[key as keyof typeof PerformanceClass]
+);
+
+const weightPresets: Map<string, WeightedPerformanceClass[]> = new Map();
+const weightedMonitors: Map<string, ClassWeights> = new Map();
+
+/**
+ * Validate weighted classes and normalize them: duplicate classes are merged
+ * by adding their weights, and weights are scaled to sum to 1. Throws a
+ * DroidDexArgumentError for unknown classes, weights that are not finite
+ * non-negative numbers, or weights that are all 0.
+ */
+export function normalizeWeightedClasses(
+  weightedClasses: WeightedPerformanceClass[],
+  path: string = 'weightedClasses'
+): WeightedPerformanceClass[] {
+  if (!Array.isArray(weightedClasses) || weightedClasses.length === 0) {
+    throw new DroidDexArgumentError(
+      path,
+      `${path} must contain at least one weighted performance class`
+    );
+  }
+
+  const merged: WeightedPerformanceClass[] = [];
+  weightedClasses.forEach((wc, index) => {
+    const { performanceClass, weight } = wc || ({} as WeightedPerformanceClass);
+    if (PERFORMANCE_CLASSES.indexOf(performanceClass) === -1) {
+      throw new DroidDexArgumentError(
+        `${path}[${index}].performanceClass`,
+        `${path}[${index}].performanceClass is not a PerformanceClass: ${performanceClass}`
+      );
+    }
+    if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+      throw new DroidDexArgumentError(
+        `${path}[${index}].weight`,
+        `${path}[${index}].weight must be a finite number >= 0, got ${weight}`,
+        { performanceClasses: [performanceClass] }
+      );
+    }
+
+    const existing = merged.find(
+      (entry) => entry.performanceClass === performanceClass
+    );
+    if (existing) {
+      existing.weight += weight;
+    } else {
+      merged.push({ performanceClass, weight });
+    }
+  });
+
+  const totalWeight = merged.reduce((sum, wc) => sum + wc.weight, 0);
+  if (totalWeight === 0) {
+    throw new DroidDexArgumentError(
+      path,
+      `The weights of ${path} must not all be 0`,
+      { performanceClasses: merged.map((wc) => wc.performanceClass) }
+    );
+  }
+  return merged.map((wc) => ({
+    performanceClass: wc.performanceClass,
+    weight: wc.weight / totalWeight,
+  }));
+}
+
+/**
+ * Normalized weighted classes of an input, looking up preset names
+ */
+export function resolveWeightedClasses(
+  input: WeightedClassesInput
+): WeightedPerformanceClass[] {
+  if (typeof input !== 'string') {
+    return normalizeWeightedClasses(input);
+  }
+  const preset = weightPresets.get(input);
+  if (!preset) {
+    throw new DroidDexArgumentError(
+      'weightedClasses',
+      `No weight preset named "${input}"`
+    );
+  }
+  return preset.map((wc) => ({ ...wc }));
+}
+
+/**
+ * Save weighted classes under a name, usable in place of them by weighted
+ * queries, monitors and hooks. Returns the normalized weights that are saved.
+ */
+export function saveWeightPreset(
+  name: string,
+  weightedClasses: WeightedPerformanceClass[]
+): WeightedPerformanceClass[] {
+  const normalized = normalizeWeightedClasses(weightedClasses);
+  weightPresets.set(name, normalized);
+  return normalized.map((wc) => ({ ...wc }));
+}
+
+export function getWeightPreset(
+  name: string
+): WeightedPerformanceClass[] | null {
+  const preset = weightPresets.get(name);
+  return preset ? preset.map((wc) => ({ ...wc })) : null;
+}
+
+export function deleteWeightPreset(name: string): boolean {
+  return weightPresets.delete(name);
+}
+
+export function listWeightPresets(): string[] {
+  return Array.from(weightPresets.keys());
+}
+
+/**
+ * Add the contribution of each supported class to a result, from the weights
+ * of the requested classes renormalized over the supported ones. It is also
+ * the weight reported in the breakdown.
+ */
+export function addContributions(
+  result: PerformanceResult,
+  weights: ClassWeights
+): PerformanceResult {
+  const totalWeight = result.supportedClasses.reduce(
+    (sum, performanceClass) => sum + (weights[performanceClass] ?? 0),
+    0
+  );
+  if (totalWeight === 0) {
+    return result;
+  }
+
+  const contributions: Partial<Record<PerformanceClass, number>> = {};
+  const breakdown = { ...result.breakdown };
+  result.supportedClasses.forEach((performanceClass) => {
+    const contribution = (weights[performanceClass] ?? 0) / totalWeight;
+    contributions[performanceClass] = contribution;
+    const classBreakdown = breakdown[performanceClass];
+    if (classBreakdown) {
+      breakdown[performanceClass] = {
+        ...classBreakdown,
+        weight: contribution,
+      };
+    }
+  });
+  return { ...result, contributions, breakdown };
+}
+
+/**
+ * Report contributions in the results of a weighted monitor, applied by
+ * applyWeightedMonitor
+ */
+export function registerWeightedMonitor(
+  monitoringId: string,
+  weights: ClassWeights
+): void {
+  weightedMonitors.set(monitoringId, weights);
+}
+
+export function unregisterWeightedMonitor(monitoringId: string): void {
+  weightedMonitors.delete(monitoringId);
+}
+
+export function unregisterAllWeightedMonitors(): void {
+  weightedMonitors.clear();
+}
+
+/**
+ * Add contributions to a monitoring result when its monitor is weighted
+ */
+export function applyWeightedMonitor(
+  result: PerformanceResult
+): PerformanceResult {
+  const weights =
+    result.monitoringId !== undefined
+      ? weightedMonitors.get(result.monitoringId)
+      : undefined;
+  return weights ? addContributions(result, weights) : result;
+}